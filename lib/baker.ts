@@ -1,21 +1,102 @@
 import { Cron } from '@/lib';
-import { CronOptions, IBaker, IBakerOptions, ICron, Status } from '@/lib/types';
+import {
+  Clock,
+  CronEventHandler,
+  CronEventName,
+  CronEvents,
+  CronMetrics,
+  CronOptions,
+  ErrorHandler,
+  ExecutionRecord,
+  IBaker,
+  IBakerOptions,
+  ICron,
+  IStorage,
+  JobState,
+  OneShotOptions,
+  RunContext,
+  Status,
+} from '@/lib/types';
+import { resolveIfPromise } from '@/lib/utils';
+import { EventEmitter } from '@/lib/events';
+import { systemClock } from '@/lib/clock';
+import { Scheduler } from '@/lib/scheduler';
+
+/**
+ * The events of the cron jobs forwarded by the baker.
+ */
+const FORWARDED_EVENTS: CronEventName[] = [
+  'job:started',
+  'job:stopped',
+  'job:paused',
+  'job:resumed',
+  'job:completed',
+  'run:start',
+  'run:success',
+  'run:error',
+  'run:skipped',
+];
 
 /**
  * A class that implements the `IBaker` interface and provides methods to manage cron jobs.
  */
 class Baker implements IBaker {
   private crons: Map<string, ICron> = new Map();
+  private timezone?: string;
+  private storage?: IStorage;
+  private onError?: ErrorHandler;
+  private clock: Clock;
+  private scheduler: Scheduler;
+  private states: Map<string, JobState> | null = null;
+  private restoring: Promise<void>;
+  private events: EventEmitter<CronEvents> = new EventEmitter();
 
   constructor(options: IBakerOptions = {}) {
+    this.timezone = options.timezone;
+    this.storage = options.storage;
+    this.onError = options.onError;
+    this.clock = options.clock ?? systemClock;
+    this.scheduler = new Scheduler(this.clock);
+    this.restoring = this.restore();
     if (options.autoStart) {
       this.bakeAll();
     }
   }
 
-  add<T extends string = string>(options: CronOptions<T>): ICron<T> {
-    const cron = Cron.create(options);
+  add<T extends string = string>(options: CronOptions<T>): ICron<T>;
+  add(options: OneShotOptions): ICron;
+  add(options: CronOptions | OneShotOptions): ICron {
+    if (!('cron' in options)) {
+      return this.add(this.oneShot(options));
+    }
+    const cron = new Cron(
+      {
+        timezone: this.timezone,
+        onError: this.onError,
+        clock: this.clock,
+        ...options,
+        // started once its events are forwarded
+        start: false,
+        callback: this.storage
+          ? this.record(options.name, options.callback)
+          : options.callback,
+      },
+      // jobs with a clock of their own can't share the scheduler
+      !options.clock || options.clock === this.clock
+        ? this.scheduler
+        : undefined,
+    );
     this.crons.set(cron.name, cron);
+    FORWARDED_EVENTS.forEach((event) =>
+      cron.on(event, (payload) => this.events.emit(event, payload)),
+    );
+    this.events.emit('job:added', { name: cron.name });
+    if (options.start) {
+      cron.start();
+    }
+    if (this.states) {
+      this.restoreJob(cron);
+    }
     return cron;
   }
 
@@ -24,6 +105,7 @@ class Baker implements IBaker {
     if (cron) {
       cron.destroy();
       this.crons.delete(name);
+      this.forget(name);
     }
   }
 
@@ -31,6 +113,7 @@ class Baker implements IBaker {
     const cron = this.crons.get(name);
     if (cron) {
       cron.start();
+      this.persist(cron);
     }
   }
 
@@ -38,6 +121,23 @@ class Baker implements IBaker {
     const cron = this.crons.get(name);
     if (cron) {
       cron.stop();
+      this.persist(cron);
+    }
+  }
+
+  pause(name: string): void {
+    const cron = this.crons.get(name);
+    if (cron) {
+      cron.pause();
+      this.persist(cron);
+    }
+  }
+
+  resume(name: string): void {
+    const cron = this.crons.get(name);
+    if (cron) {
+      cron.resume();
+      this.persist(cron);
     }
   }
 
@@ -46,12 +146,13 @@ class Baker implements IBaker {
     if (cron) {
       cron.destroy();
       this.crons.delete(name);
+      this.forget(name);
     }
   }
 
   getStatus(name: string): Status {
     const cron = this.crons.get(name);
-    return cron ? cron.getStatus() : 'stopped';
+    return cron ? cron.getStatus() : 'idle';
   }
 
   isRunning(name: string): boolean {
@@ -59,14 +160,38 @@ class Baker implements IBaker {
     return cron ? cron.isRunning() : false;
   }
 
-  lastExecution(name: string): Date {
+  isExecuting(name: string): boolean {
+    const cron = this.crons.get(name);
+    return cron ? cron.isExecuting() : false;
+  }
+
+  lastExecution(name: string): Date | null {
     const cron = this.crons.get(name);
-    return cron ? cron.lastExecution() : new Date();
+    return cron ? cron.lastExecution() : null;
+  }
+
+  getHistory(name: string): ExecutionRecord[] {
+    const cron = this.crons.get(name);
+    return cron ? cron.getHistory() : [];
+  }
+
+  getMetrics(name: string): CronMetrics {
+    const cron = this.crons.get(name);
+    return cron
+      ? cron.getMetrics()
+      : {
+          runs: 0,
+          failures: 0,
+          averageDuration: 0,
+          p95Duration: 0,
+          lastSuccess: null,
+          lastFailure: null,
+        };
   }
 
   nextExecution(name: string): Date {
     const cron = this.crons.get(name);
-    return cron ? cron.nextExecution() : new Date();
+    return cron ? cron.nextExecution() : new Date(this.clock.now());
   }
 
   remaining(name: string): number {
@@ -79,19 +204,208 @@ class Baker implements IBaker {
     return cron ? cron.time() : 0;
   }
 
+  take(name: string, n: number, from?: Date): Date[] {
+    const cron = this.crons.get(name);
+    return cron ? cron.take(n, from) : [];
+  }
+
+  takePrevious(name: string, n: number, from?: Date): Date[] {
+    const cron = this.crons.get(name);
+    return cron ? cron.takePrevious(n, from) : [];
+  }
+
+  between(name: string, start: Date, end: Date): Date[] {
+    const cron = this.crons.get(name);
+    return cron ? cron.between(start, end) : [];
+  }
+
+  occurrences(name: string, from?: Date): IterableIterator<Date> {
+    const cron = this.crons.get(name);
+    return cron ? cron.occurrences(from) : [][Symbol.iterator]();
+  }
+
+  ready(): Promise<void> {
+    return this.restoring;
+  }
+
+  on<E extends CronEventName>(event: E, handler: CronEventHandler<E>): void {
+    this.events.on(event, handler);
+  }
+
+  once<E extends CronEventName>(event: E, handler: CronEventHandler<E>): void;
+  once(options: OneShotOptions): ICron;
+  once<E extends CronEventName>(
+    event: E | OneShotOptions,
+    handler?: CronEventHandler<E>,
+  ): ICron | void {
+    if (typeof event !== 'string') {
+      return this.add(event);
+    }
+    this.events.once(event, handler!);
+  }
+
+  off<E extends CronEventName>(event: E, handler: CronEventHandler<E>): void {
+    this.events.off(event, handler);
+  }
+
   bakeAll(): void {
-    this.crons.forEach((cron) => cron.start());
+    this.crons.forEach((cron) => {
+      if (cron.getStatus() === 'idle') {
+        cron.start();
+        this.persist(cron);
+      }
+    });
   }
 
   stopAll(): void {
-    this.crons.forEach((cron) => cron.stop());
+    this.crons.forEach((cron) => {
+      cron.stop();
+      this.persist(cron);
+    });
+  }
+
+  pauseAll(): void {
+    this.crons.forEach((cron) => {
+      if (cron.isRunning()) {
+        cron.pause();
+        this.persist(cron);
+      }
+    });
+  }
+
+  resumeAll(): void {
+    this.crons.forEach((cron) => {
+      if (cron.getStatus() === 'paused') {
+        cron.resume();
+        this.persist(cron);
+      }
+    });
   }
 
   destroyAll(): void {
-    this.crons.forEach((cron) => cron.destroy());
+    this.crons.forEach((cron) => {
+      cron.destroy();
+      this.forget(cron.name);
+    });
     this.crons.clear();
   }
 
+  /**
+   * Gets the options of a cron job running once at the date of a one-shot
+   * job, or right away if it's already past.
+   */
+  private oneShot(options: OneShotOptions): CronOptions {
+    const now = (options.clock ?? this.clock).now();
+    const at = new Date(
+      Math.max(
+        options.at ? options.at.getTime() : now + options.delay!,
+        now + 1,
+      ),
+    );
+    return {
+      ...options,
+      cron: `${at.getUTCMilliseconds()} ${at.getUTCSeconds()} ${at.getUTCMinutes()} ${at.getUTCHours()} ${at.getUTCDate()} ${at.getUTCMonth() + 1} *`,
+      format: 'milliseconds',
+      timezone: 'UTC',
+      startAt: at,
+      maxRuns: 1,
+      start: options.start ?? true,
+    };
+  }
+
+  /**
+   * Loads the persisted states and restores the cron jobs added meanwhile.
+   * Storage failures never stop the cron jobs.
+   */
+  private async restore(): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+    let states: JobState[] = [];
+    try {
+      states = await this.storage.loadJobs();
+    } catch (error) {
+      this.events.emit('storage:error', { error });
+    }
+    this.states = new Map(states.map((state) => [state.name, state]));
+    this.crons.forEach((cron) => this.restoreJob(cron));
+  }
+
+  /**
+   * Restores the persisted state of a cron job, or persists its state if it
+   * has none yet.
+   */
+  private restoreJob(cron: ICron): void {
+    const state = this.states?.get(cron.name);
+    if (state) {
+      cron.restore(state);
+    } else {
+      this.persist(cron);
+    }
+  }
+
+  /**
+   * Saves the state of a cron job. Storage failures never stop the cron jobs,
+   * they're reported as `storage:error` events.
+   */
+  private persist(cron: ICron): void {
+    this.storage
+      ?.saveJob(cron.getState())
+      .catch((error) => this.events.emit('storage:error', { error }));
+  }
+
+  /**
+   * Removes the persisted state of a removed cron job.
+   */
+  private forget(name: string): void {
+    this.events.emit('job:removed', { name });
+    this.states?.delete(name);
+    this.storage
+      ?.removeJob(name)
+      .catch((error) => this.events.emit('storage:error', { error }));
+  }
+
+  /**
+   * Wraps the callback of a cron job to save a record of each of its runs,
+   * errors are rethrown so the cron job can retry and report them.
+   */
+  private record(
+    name: string,
+    callback?: (context: RunContext) => void,
+  ): (context: RunContext) => Promise<void> {
+    return async (context) => {
+      const startedAt = new Date(this.clock.now());
+      let failed = false;
+      let error: unknown;
+      try {
+        if (callback) {
+          await resolveIfPromise(callback(context));
+        }
+      } catch (e) {
+        failed = true;
+        error = e;
+      }
+      const cron = this.crons.get(name);
+      if (this.storage && cron) {
+        this.storage
+          .saveRun({
+            name,
+            startedAt,
+            finishedAt: new Date(this.clock.now()),
+            success: !failed,
+            ...(failed && {
+              error: error instanceof Error ? error.message : String(error),
+            }),
+          })
+          .catch((error) => this.events.emit('storage:error', { error }));
+        this.persist(cron);
+      }
+      if (failed) {
+        throw error;
+      }
+    };
+  }
+
   /**
    * Creates a new instance of `Baker`.
    */
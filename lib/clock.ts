@@ -0,0 +1,125 @@
+import { type Clock } from '@/lib/types';
+
+/**
+ * The clock of the host, reading the system time and using the global timers.
+ */
+const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as Timer),
+};
+
+/**
+ * A timer scheduled on a virtual clock.
+ */
+type VirtualTimer = {
+  at: number;
+  callback: () => void;
+};
+
+/**
+ * Lets the event loop run the pending promise callbacks, so async callbacks
+ * fired by a virtual clock settle before the next timer fires.
+ */
+const settle = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+/**
+ * A clock whose time only moves when told to, firing the timers due on the
+ * way in order. Inject it in cron jobs and bakers to test schedules without
+ * waiting.
+ */
+class VirtualClock implements Clock {
+  private time: number;
+  private timers: Map<number, VirtualTimer> = new Map();
+  private id = 0;
+
+  /**
+   * Creates a new instance of the `VirtualClock` class, starting at the
+   * given time or the current time.
+   */
+  constructor(start: Date | number = Date.now()) {
+    this.time = new Date(start).getTime();
+    this.now = this.now.bind(this);
+    this.setTimeout = this.setTimeout.bind(this);
+    this.clearTimeout = this.clearTimeout.bind(this);
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): number {
+    this.timers.set(++this.id, {
+      at: this.time + Math.max(ms, 0),
+      callback,
+    });
+    return this.id;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  /**
+   * Moves the time forward by the given number of milliseconds, firing the
+   * timers due on the way.
+   */
+  async advanceBy(ms: number): Promise<void> {
+    return this.advanceTo(this.time + ms);
+  }
+
+  /**
+   * Moves the time forward to the given date, firing the timers due on the
+   * way in order. Moving backward only sets the time.
+   */
+  async advanceTo(date: Date | number): Promise<void> {
+    const target = new Date(date).getTime();
+    await settle();
+    for (let due = this.nextDue(target); due; due = this.nextDue(target)) {
+      this.time = Math.max(this.time, due[1].at);
+      this.fire(...due);
+      await settle();
+    }
+    this.time = target;
+  }
+
+  /**
+   * Moves the time to the given date without firing the timers due on the
+   * way, like a host waking up from sleep. They fire late on the next
+   * advance or `runAllDue`.
+   */
+  jumpTo(date: Date | number): void {
+    this.time = new Date(date).getTime();
+  }
+
+  /**
+   * Fires the timers due at the current time, without moving the time.
+   */
+  async runAllDue(): Promise<void> {
+    return this.advanceTo(this.time);
+  }
+
+  /**
+   * Finds the earliest timer due by the given time, the oldest one first
+   * when several are due at the same time.
+   */
+  private nextDue(target: number): [number, VirtualTimer] | null {
+    let next: [number, VirtualTimer] | null = null;
+    for (const entry of this.timers) {
+      if (entry[1].at <= target && (!next || entry[1].at < next[1].at)) {
+        next = entry;
+      }
+    }
+    return next;
+  }
+
+  /**
+   * Removes a timer and calls its callback.
+   */
+  private fire(id: number, timer: VirtualTimer): void {
+    this.timers.delete(id);
+    timer.callback();
+  }
+}
+
+export { systemClock, VirtualClock };
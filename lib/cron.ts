@@ -1,13 +1,64 @@
 import {
+  type Clock,
+  type CronAction,
+  type CronEventHandler,
+  type CronEventName,
+  type CronEvents,
   type CronExpressionType,
+  type CronLocale,
+  type CronMetrics,
   type CronOptions,
+  type CronParserOptions,
   type CronTime,
+  type CronValidationResult,
+  type DescribeOptions,
+  type ErrorHandler,
+  type ExecutionRecord,
   type ICron,
   type ICronParser,
+  type JitterOptions,
+  type JobState,
+  type MisfirePolicy,
+  type OverlapPolicy,
+  type RetryOptions,
+  type RunContext,
+  type OccurrenceOptions,
   type Status,
 } from '@/lib/types';
 import { CronParser } from '@/lib';
-import { CBResolver } from '@/lib/utils';
+import { CronStateError, CronTimeoutError } from '@/lib/errors';
+import {
+  CBResolver,
+  getRetryDelay,
+  hashString,
+  resolveIfPromise,
+} from '@/lib/utils';
+import { describe, registerLocale, resolveLocale } from '@/lib/describe';
+import { EventEmitter } from '@/lib/events';
+import { systemClock } from '@/lib/clock';
+import { Scheduler } from '@/lib/scheduler';
+
+/**
+ * The persisted statuses of the cron jobs started again on restore,
+ * `'running'` being the one saved by older versions.
+ */
+const ACTIVE_STATUSES: string[] = [
+  'scheduled',
+  'executing',
+  'errored',
+  'paused',
+  'running',
+];
+
+/**
+ * A run of a cron job in progress, with the controller of its current attempt
+ * and the jitter delaying it.
+ */
+type Execution = {
+  controller: AbortController | null;
+  cancelled: boolean;
+  jitter: number;
+};
 
 /**
  * A class that implements the `ICron` interface and provides methods manage a cron job.
@@ -16,89 +67,680 @@ class Cron<T extends string = string> implements ICron<T> {
   name: string;
   cron: CronExpressionType<T>;
   callback: () => void;
-  onTick: () => void;
+  onTick: (context: RunContext) => void;
   onComplete: () => void;
-  private interval: Timer | null = null;
   private next: Date | null = null;
-  private status: Status = 'stopped';
+  private offset = 0;
+  private lastRun: Date | null = null;
+  private status: Status = 'idle';
+  private failed = false;
   private parser: ICronParser;
+  private parserOptions: CronParserOptions;
+  private misfire: MisfirePolicy;
+  private maxCatchUp: number;
+  private misfireGrace: number;
+  private jitter?: JitterOptions;
+  private overlap: OverlapPolicy;
+  private executions: Set<Execution> = new Set();
+  private queued: { scheduledAt: Date; jitter: number }[] = [];
+  private task?: (context: RunContext) => void;
+  private timeout?: number;
+  private maxRuns?: number;
+  private startAt?: Date;
+  private endAt?: Date;
+  private fired = 0;
+  private onError?: ErrorHandler;
+  private retry?: RetryOptions;
+  private history: ExecutionRecord[] = [];
+  private historySize: number;
+  private runs = 0;
+  private failures = 0;
+  private lastSuccess: Date | null = null;
+  private lastFailure: Date | null = null;
+  private events: EventEmitter<CronEvents> = new EventEmitter();
+  private clock: Clock;
+  private scheduler: Scheduler;
 
   /**
-   * Creates a new instance of the `Cron` class.
+   * Creates a new instance of the `Cron` class, driven by the given scheduler
+   * or by its own one.
    */
-  constructor(options: CronOptions<T>) {
+  constructor(options: CronOptions<T>, scheduler?: Scheduler) {
     this.name = options.name;
     this.cron = options.cron;
-    this.callback = CBResolver.bind(this, options.callback);
+    this.task = options.callback;
+    this.onError = options.onError;
+    this.retry = options.retry;
+    this.timeout = options.timeout;
+    this.maxRuns = options.maxRuns;
+    this.startAt = options.startAt;
+    this.endAt = options.endAt;
+    this.historySize = options.historySize ?? 100;
+    this.clock = options.clock ?? systemClock;
+    this.scheduler = scheduler ?? new Scheduler(this.clock);
+    this.callback = this.run.bind(this);
     this.onTick = CBResolver.bind(this, options.onTick);
     this.onComplete = CBResolver.bind(this, options.onComplete);
+    this.misfire = options.misfire ?? 'runOnce';
+    this.maxCatchUp = options.maxCatchUp ?? 10;
+    this.misfireGrace = options.misfireGrace ?? 1000;
+    this.jitter =
+      typeof options.jitter === 'number'
+        ? { max: options.jitter }
+        : options.jitter;
+    this.overlap = options.overlap ?? 'allow';
     this.start = this.start.bind(this);
     this.stop = this.stop.bind(this);
+    this.pause = this.pause.bind(this);
+    this.resume = this.resume.bind(this);
     this.destroy = this.destroy.bind(this);
     this.getStatus = this.getStatus.bind(this);
     this.isRunning = this.isRunning.bind(this);
+    this.isExecuting = this.isExecuting.bind(this);
     this.lastExecution = this.lastExecution.bind(this);
+    this.getHistory = this.getHistory.bind(this);
+    this.getMetrics = this.getMetrics.bind(this);
     this.nextExecution = this.nextExecution.bind(this);
     this.remaining = this.remaining.bind(this);
     this.time = this.time.bind(this);
-    this.parser = new CronParser(this.cron);
+    this.take = this.take.bind(this);
+    this.takePrevious = this.takePrevious.bind(this);
+    this.between = this.between.bind(this);
+    this.occurrences = this.occurrences.bind(this);
+    this.getState = this.getState.bind(this);
+    this.restore = this.restore.bind(this);
+    this.on = this.on.bind(this);
+    this.once = this.once.bind(this);
+    this.off = this.off.bind(this);
+    this.parserOptions = {
+      format: options.format,
+      timezone: options.timezone,
+      repeatedTimes: options.repeatedTimes,
+      clock: this.clock,
+      anchor: options.anchor ?? options.startAt,
+      hashKey: options.name,
+    };
+    this.parser = new CronParser(this.cron, this.parserOptions);
+    // reject invalid cron expressions up front rather than on the first tick
+    this.parser.parse();
     if (options.start) {
       this.start();
     }
   }
 
   start(): void {
-    if (this.status === 'running') {
+    if (this.isRunning()) {
+      return;
+    }
+    this.guard('start', ['idle']);
+    this.status = 'scheduled';
+    this.events.emit('job:started', { name: this.name });
+    const now = new Date(this.clock.now());
+    this.anchorAt(now);
+    this.schedule(this.nextRun(now));
+  }
+
+  /**
+   * Counts the intervals of an `@every` preset from the given date, unless
+   * the cron job has an anchor of its own.
+   */
+  private anchorAt(date: Date): void {
+    if (!this.parserOptions.anchor) {
+      this.parser = new CronParser(this.cron, {
+        ...this.parserOptions,
+        anchor: date,
+      });
+    }
+  }
+
+  /**
+   * Schedules the next run of the cron job, delayed by its jitter, or
+   * completes it when it has no run left.
+   */
+  private schedule(next: Date | undefined): void {
+    if (!next) {
+      this.complete();
       return;
     }
-    this.status = 'running';
-    this.next = this.parser.getNext();
-    this.interval = setInterval(() => {
-      if (this.next && this.next.getTime() <= Date.now()) {
-        this.callback();
-        this.onTick();
-        this.next = this.parser.getNext();
+    // a run rescheduled keeps its jitter
+    if (next !== this.next) {
+      this.offset = this.drawJitter();
+    }
+    this.next = next;
+    this.scheduler.schedule(this, next.getTime() + this.offset, () =>
+      this.tick(),
+    );
+  }
+
+  /**
+   * Draws the delay of the next run within the jitter window, derived from
+   * the name of the cron job in the `'name'` mode.
+   */
+  private drawJitter(): number {
+    if (!this.jitter || this.jitter.max <= 0) {
+      return 0;
+    }
+    const { max, mode = 'random' } = this.jitter;
+    return mode === 'name'
+      ? hashString(this.name) % max
+      : Math.floor(Math.random() * max);
+  }
+
+  /**
+   * Gets the next run after the given date within the active window of the
+   * cron job, or `undefined` once it has no run left.
+   */
+  private nextRun(from: Date): Date | undefined {
+    if (this.exhausted()) {
+      return undefined;
+    }
+    const next = this.parser.take(
+      1,
+      this.startAt && this.startAt.getTime() - 1 > from.getTime()
+        ? new Date(this.startAt.getTime() - 1)
+        : from,
+    )[0];
+    return next && (!this.endAt || next <= this.endAt) ? next : undefined;
+  }
+
+  /**
+   * Checks if the cron job reached its maximum number of runs.
+   */
+  private exhausted(): boolean {
+    return this.maxRuns !== undefined && this.fired >= this.maxRuns;
+  }
+
+  /**
+   * Completes the cron job once its last run is due, its queued runs still
+   * execute.
+   */
+  private complete(): void {
+    this.status = 'completed';
+    this.next = null;
+    this.scheduler.unschedule(this);
+    this.events.emit('job:completed', { name: this.name });
+    this.onComplete();
+  }
+
+  /**
+   * Throws a `CronStateError` unless the cron job is in one of the statuses
+   * the action is allowed from.
+   */
+  private guard(action: CronAction, allowed: Status[]): void {
+    if (!allowed.includes(this.status)) {
+      throw new CronStateError(this.name, action, this.getStatus());
+    }
+  }
+
+  /**
+   * Runs the cron job when its next run is due, then schedules the one after.
+   */
+  private tick(): void {
+    // runs are due as of the time they would fire without their jitter
+    const now = this.clock.now() - this.offset;
+    if (this.next && this.next.getTime() <= now) {
+      for (const date of this.due(this.next, now)) {
+        if (this.exhausted() || (this.endAt && date > this.endAt)) {
+          break;
+        }
+        this.execute(date);
+        // the callback stopped, paused or destroyed the cron job
+        if (this.status !== 'scheduled') {
+          return;
+        }
+      }
+      this.schedule(this.nextRun(new Date(now)));
+    } else if (this.next) {
+      this.schedule(this.next);
+    }
+  }
+
+  /**
+   * Runs the callback of the cron job according to the overlap policy when
+   * the previous run is still executing.
+   */
+  private execute(scheduledAt: Date): void {
+    if (this.executions.size) {
+      switch (this.overlap) {
+        case 'skip':
+          this.events.emit('run:skipped', {
+            name: this.name,
+            scheduledAt,
+            reason: 'overlap',
+          });
+          return;
+        case 'queue':
+          this.fired++;
+          this.queued.push({ scheduledAt, jitter: this.offset });
+          return;
+        case 'cancelPrevious':
+          this.executions.forEach((execution) => {
+            execution.cancelled = true;
+            execution.controller?.abort();
+          });
+          this.executions.clear();
+          break;
       }
-    }, 1000);
+    }
+    this.fired++;
+    this.launch(scheduledAt, this.offset);
+  }
+
+  /**
+   * Checks if an error is worth a retry according to the retry policy, a
+   * throwing predicate meaning it's not.
+   */
+  private retryable(error: unknown): boolean {
+    try {
+      return this.retry?.retryable?.(error) ?? true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Starts a run of the cron job, then releases the queue once it completes.
+   */
+  private launch(scheduledAt: Date, jitter: number): void {
+    const execution: Execution = { controller: null, cancelled: false, jitter };
+    this.executions.add(execution);
+    // a failing run never leaves its execution behind
+    this.run(scheduledAt, execution)
+      .catch(() => {})
+      .then(() => {
+        // abandoned runs don't release the queue
+        if (this.executions.delete(execution)) {
+          this.release();
+        }
+      });
+  }
+
+  /**
+   * Starts the next queued run once no run is in progress, unless the cron
+   * job is paused or stopped.
+   */
+  private release(): void {
+    if (
+      (this.status === 'scheduled' || this.status === 'completed') &&
+      !this.executions.size &&
+      this.queued.length
+    ) {
+      const { scheduledAt, jitter } = this.queued.shift()!;
+      this.launch(scheduledAt, jitter);
+    }
+  }
+
+  /**
+   * Runs the callback of the cron job, retrying it according to the retry
+   * policy before reporting the error to the error handler. Runs fired by
+   * the schedule also call `onTick`.
+   */
+  private async run(
+    scheduledAt: Date = new Date(this.clock.now()),
+    execution: Execution = { controller: null, cancelled: false, jitter: 0 },
+  ): Promise<void> {
+    this.lastRun = new Date(this.clock.now());
+    const runId = crypto.randomUUID();
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = new Date(this.clock.now());
+      // the jitter is a delay on purpose, not an inaccuracy of the timer
+      const drift =
+        startedAt.getTime() - scheduledAt.getTime() - execution.jitter;
+      const controller = new AbortController();
+      const context: RunContext = {
+        name: this.name,
+        scheduledAt,
+        firedAt: startedAt,
+        drift,
+        attempt,
+        runId,
+        signal: controller.signal,
+      };
+      execution.controller = controller;
+      this.events.emit('run:start', {
+        name: this.name,
+        scheduledAt,
+        startedAt,
+        drift,
+        attempt,
+      });
+      // runs called by hand don't tick
+      if (attempt === 1 && this.executions.has(execution)) {
+        this.onTick(context);
+      }
+      try {
+        await this.attempt(context, controller);
+        this.record({
+          scheduledAt,
+          startedAt,
+          drift,
+          duration: this.clock.now() - startedAt.getTime(),
+          outcome: 'success',
+          attempt,
+        });
+        this.failed = false;
+        return;
+      } catch (error) {
+        const retrying =
+          !execution.cancelled &&
+          attempt < (this.retry?.attempts ?? 1) &&
+          this.retryable(error);
+        this.record(
+          {
+            scheduledAt,
+            startedAt,
+            drift,
+            duration: this.clock.now() - startedAt.getTime(),
+            outcome: execution.cancelled
+              ? 'cancelled'
+              : error instanceof CronTimeoutError
+                ? 'timeout'
+                : 'error',
+            error,
+            attempt,
+          },
+          !retrying,
+        );
+        if (execution.cancelled) {
+          return;
+        }
+        if (!retrying) {
+          this.failed = true;
+          try {
+            this.onError?.(error, { name: this.name, attempt });
+          } catch (e) {}
+          return;
+        }
+        await new Promise<void>((resolve) =>
+          this.clock.setTimeout(resolve, getRetryDelay(this.retry!, attempt)),
+        );
+        if (execution.cancelled) {
+          return;
+        }
+      }
+    }
+  }
+
+  /**
+   * Calls the callback of the cron job, aborting its signal once the timeout
+   * is exceeded and settling as soon as it's aborted, even if the callback
+   * ignores it.
+   */
+  private async attempt(
+    context: RunContext,
+    controller: AbortController,
+  ): Promise<void> {
+    const { signal } = context;
+    const aborted = new Promise<never>((_, reject) =>
+      signal.addEventListener('abort', () => reject(signal.reason), {
+        once: true,
+      }),
+    );
+    // an abort after the callback settled is left unhandled otherwise
+    aborted.catch(() => {});
+    const timer =
+      this.timeout === undefined
+        ? null
+        : this.clock.setTimeout(
+            () =>
+              controller.abort(new CronTimeoutError(this.name, this.timeout!)),
+            this.timeout,
+          );
+    try {
+      await Promise.race([resolveIfPromise(this.task?.(context)), aborted]);
+    } finally {
+      if (timer !== null) {
+        this.clock.clearTimeout(timer);
+      }
+    }
+  }
+
+  /**
+   * Adds an execution to the history, dropping the oldest one when full.
+   * The last attempt of a run also counts it in the metrics and emits its
+   * outcome.
+   */
+  private record(execution: ExecutionRecord, final = true): void {
+    this.history.push(execution);
+    if (this.history.length > this.historySize) {
+      this.history.shift();
+    }
+    // a run is counted once, by its last attempt, unless it was abandoned
+    if (!final || execution.outcome === 'cancelled') {
+      return;
+    }
+    this.runs++;
+    if (execution.outcome === 'success') {
+      this.lastSuccess = execution.startedAt;
+      this.events.emit('run:success', { name: this.name, ...execution });
+    } else {
+      this.failures++;
+      this.lastFailure = execution.startedAt;
+      this.events.emit('run:error', { name: this.name, ...execution });
+    }
+  }
+
+  /**
+   * Gets the runs due between the scheduled time and now. The runs later
+   * than the grace window are missed and handled by the misfire policy.
+   */
+  private due(next: Date, now: number): Date[] {
+    const cutoff = now - this.misfireGrace;
+    const onTime = this.parser.between(
+      new Date(Math.max(next.getTime(), cutoff)),
+      new Date(now),
+    );
+    if (next.getTime() >= cutoff) {
+      return onTime;
+    }
+    switch (this.misfire) {
+      case 'skip':
+        // each dropped run is reported, however many were missed
+        for (const date of this.parser.occurrences(
+          new Date(next.getTime() - 1),
+        )) {
+          if (date.getTime() >= cutoff) {
+            break;
+          }
+          this.events.emit('run:skipped', {
+            name: this.name,
+            scheduledAt: date,
+            reason: 'misfire',
+          });
+        }
+        return onTime;
+      case 'runOnce':
+        return onTime.length
+          ? onTime.slice(-1)
+          : this.parser.takePrevious(1, new Date(cutoff));
+      case 'runAll':
+        return [
+          ...this.parser
+            .takePrevious(this.maxCatchUp, new Date(cutoff))
+            .filter((date) => date >= next)
+            .reverse(),
+          ...onTime,
+        ];
+    }
   }
 
   stop(): void {
-    if (this.status === 'stopped') {
+    if (this.status === 'idle' || this.status === 'completed') {
+      return;
+    }
+    this.guard('stop', ['scheduled', 'paused']);
+    this.status = 'idle';
+    this.queued = [];
+    this.scheduler.unschedule(this);
+    this.events.emit('job:stopped', { name: this.name });
+  }
+
+  pause(): void {
+    if (this.status === 'paused') {
       return;
     }
-    this.status = 'stopped';
-    if (this.interval) {
-      clearInterval(this.interval);
+    this.guard('pause', ['scheduled']);
+    this.status = 'paused';
+    this.scheduler.unschedule(this);
+    this.events.emit('job:paused', { name: this.name });
+  }
+
+  resume(): void {
+    if (this.isRunning()) {
+      return;
     }
+    this.guard('resume', ['paused']);
+    this.status = 'scheduled';
+    this.events.emit('job:resumed', { name: this.name });
+    // a run missed while paused is due right away
+    this.schedule(this.next!);
+    this.release();
   }
 
   destroy(): void {
+    if (this.status === 'destroyed') {
+      return;
+    }
+    const completed = this.status === 'completed';
     this.stop();
-    this.onComplete();
+    this.status = 'destroyed';
+    if (!completed) {
+      this.onComplete();
+    }
   }
 
   getStatus(): Status {
-    return this.status;
+    if (this.status !== 'scheduled') {
+      return this.status;
+    }
+    if (this.executions.size) {
+      return 'executing';
+    }
+    return this.failed ? 'errored' : 'scheduled';
   }
 
   isRunning(): boolean {
-    return this.status === 'running';
+    return this.status === 'scheduled';
+  }
+
+  isExecuting(): boolean {
+    return this.executions.size > 0;
+  }
+
+  lastExecution(): Date | null {
+    return this.lastRun;
+  }
+
+  on<E extends CronEventName>(event: E, handler: CronEventHandler<E>): void {
+    this.events.on(event, handler);
   }
 
-  lastExecution(): Date {
-    return this.parser.getPrevious();
+  once<E extends CronEventName>(event: E, handler: CronEventHandler<E>): void {
+    this.events.once(event, handler);
+  }
+
+  off<E extends CronEventName>(event: E, handler: CronEventHandler<E>): void {
+    this.events.off(event, handler);
+  }
+
+  getHistory(): ExecutionRecord[] {
+    return [...this.history].reverse();
+  }
+
+  getMetrics(): CronMetrics {
+    const durations = this.history
+      .filter(({ outcome }) => outcome !== 'cancelled')
+      .map((execution) => execution.duration)
+      .sort((a, b) => a - b);
+    return {
+      runs: this.runs,
+      failures: this.failures,
+      averageDuration: durations.length
+        ? durations.reduce((sum, duration) => sum + duration, 0) /
+          durations.length
+        : 0,
+      p95Duration: durations.length
+        ? durations[Math.ceil(durations.length * 0.95) - 1]
+        : 0,
+      lastSuccess: this.lastSuccess,
+      lastFailure: this.lastFailure,
+    };
   }
 
   nextExecution(): Date {
-    return this.next || new Date();
+    return this.next
+      ? new Date(this.next.getTime() + this.offset)
+      : new Date(this.clock.now());
   }
 
   remaining(): number {
-    return this.next ? this.next.getTime() - Date.now() : 0;
+    return this.next ? this.next.getTime() + this.offset - this.clock.now() : 0;
   }
 
   time(): number {
-    return Date.now();
+    return this.clock.now();
+  }
+
+  take(n: number, from?: Date): Date[] {
+    return this.parser.take(n, from);
+  }
+
+  takePrevious(n: number, from?: Date): Date[] {
+    return this.parser.takePrevious(n, from);
+  }
+
+  between(start: Date, end: Date): Date[] {
+    return this.parser.between(start, end);
+  }
+
+  occurrences(from?: Date): IterableIterator<Date> {
+    return this.parser.occurrences(from);
+  }
+
+  getState(): JobState {
+    return {
+      name: this.name,
+      status: this.getStatus(),
+      lastRun: this.lastRun,
+      runs: this.fired,
+    };
+  }
+
+  restore(state: JobState): void {
+    this.lastRun = state.lastRun;
+    // jobs paused, completed or destroyed meanwhile keep their status
+    if (this.status !== 'idle' && !this.isRunning()) {
+      return;
+    }
+    // runs before the start time were fired by an earlier cron job of the
+    // same name, e.g. a one-shot job added again
+    const stale =
+      !!this.startAt && !!state.lastRun && state.lastRun < this.startAt;
+    if (!stale) {
+      this.fired = state.runs ?? this.fired;
+    }
+    if (state.status === 'completed') {
+      // a cron job completed before stays completed, without completing again
+      if (!stale) {
+        this.status = 'completed';
+        this.next = null;
+        this.scheduler.unschedule(this);
+      }
+      return;
+    }
+    if (!ACTIVE_STATUSES.includes(state.status)) {
+      this.stop();
+      return;
+    }
+    this.start();
+    // catch up with the runs missed since the last run
+    if (state.lastRun && this.isRunning()) {
+      this.anchorAt(state.lastRun);
+      this.schedule(this.nextRun(state.lastRun));
+    }
+    if (state.status === 'paused' && this.isRunning()) {
+      this.pause();
+    }
   }
 
   /**
@@ -124,8 +766,12 @@ class Cron<T extends string = string> implements ICron<T> {
    * @template T The type of the cron expression.
    * @returns A `Date` object representing the next execution time.
    */
-  static getNext<T extends string = string>(cron: CronExpressionType<T>): Date {
-    return new CronParser(cron).getNext();
+  static getNext<T extends string = string>(
+    cron: CronExpressionType<T>,
+    options: OccurrenceOptions = {},
+  ): Date {
+    const { from, ...parserOptions } = options;
+    return new CronParser(cron, parserOptions).getNext(from);
   }
 
   /**
@@ -134,32 +780,109 @@ class Cron<T extends string = string> implements ICron<T> {
    */
   static getPrevious<T extends string = string>(
     cron: CronExpressionType<T>,
+    options: OccurrenceOptions = {},
   ): Date {
-    return new CronParser(cron).getPrevious();
+    const { from, ...parserOptions } = options;
+    return new CronParser(cron, parserOptions).getPrevious(from);
+  }
+
+  /**
+   * Gets the next `n` execution times for the specified cron expression.
+   * @returns An array of up to `n` dates in ascending order.
+   */
+  static take<T extends string = string>(
+    cron: CronExpressionType<T>,
+    n: number,
+    options: OccurrenceOptions = {},
+  ): Date[] {
+    const { from, ...parserOptions } = options;
+    return new CronParser(cron, parserOptions).take(n, from);
+  }
+
+  /**
+   * Gets the previous `n` execution times for the specified cron expression.
+   * @returns An array of up to `n` dates in descending order.
+   */
+  static takePrevious<T extends string = string>(
+    cron: CronExpressionType<T>,
+    n: number,
+    options: OccurrenceOptions = {},
+  ): Date[] {
+    const { from, ...parserOptions } = options;
+    return new CronParser(cron, parserOptions).takePrevious(n, from);
+  }
+
+  /**
+   * Gets all the execution times for the specified cron expression between two dates, both included.
+   * @returns An array of dates in ascending order.
+   */
+  static between<T extends string = string>(
+    cron: CronExpressionType<T>,
+    start: Date,
+    end: Date,
+    options?: CronParserOptions,
+  ): Date[] {
+    return new CronParser(cron, options).between(start, end);
+  }
+
+  /**
+   * Lazily iterates over the execution times for the specified cron expression.
+   * @returns An iterator of dates in ascending order.
+   */
+  static occurrences<T extends string = string>(
+    cron: CronExpressionType<T>,
+    options: OccurrenceOptions = {},
+  ): IterableIterator<Date> {
+    const { from, ...parserOptions } = options;
+    return new CronParser(cron, parserOptions).occurrences(from);
+  }
+
+  /**
+   * Validates the specified cron expression, which can be any string.
+   * @returns The validation result with a diagnostic for each invalid part of the expression.
+   */
+  static validate(
+    cron: string,
+    options?: CronParserOptions,
+  ): CronValidationResult {
+    return new CronParser(cron, options).validate();
+  }
+
+  /**
+   * Describes the specified cron expression in a human-readable way.
+   * @returns A description such as `Every 5 minutes, between 09:00 and 17:59, Monday through Friday`.
+   */
+  static describe<T extends string = string>(
+    cron: CronExpressionType<T>,
+    options: DescribeOptions = {},
+  ): string {
+    const { locale, ...parserOptions } = options;
+    return describe(
+      new CronParser(cron, parserOptions).parse(),
+      resolveLocale(locale),
+    );
+  }
+
+  /**
+   * Registers a locale table under a name, so it can be used to describe cron expressions.
+   */
+  static registerLocale(name: string, locale: CronLocale): void {
+    registerLocale(name, locale);
   }
 
   /**
    * Checks if the specified string is a valid cron expression.
    * @returns `true` if the string is a valid cron expression, `false` otherwise.
    */
-  static isCron<T extends string = string>(
-    cron: CronExpressionType<T>,
-  ): boolean {
-    try {
-      new CronParser(cron).parse();
-      return true;
-    } catch (e) {
-      return false;
-    }
+  static isCron(cron: string): boolean {
+    return Cron.validate(cron).valid;
   }
 
   /**
    * Checks if the specified string is a valid cron expression.
    * @returns `true` if the string is a valid cron expression, `false` otherwise.
    */
-  static isValid<T extends string = string>(
-    cron: CronExpressionType<T>,
-  ): boolean {
+  static isValid(cron: string): boolean {
     return Cron.isCron(cron);
   }
 }
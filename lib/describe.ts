@@ -0,0 +1,457 @@
+import {
+  type CronDescriptionUnit,
+  type CronInterval,
+  type CronLocale,
+  type CronTime,
+} from '@/lib/types';
+
+/**
+ * The shape of the values of a field, from which its description is built.
+ */
+type Pattern =
+  | { type: 'all' }
+  | { type: 'single'; value: number }
+  | { type: 'range'; start: number; end: number }
+  | { type: 'step'; start: number; step: number }
+  | { type: 'list'; values: number[] };
+
+/**
+ * The English locale, the default one.
+ */
+const en: CronLocale = {
+  list: (items) =>
+    items.length > 1
+      ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`
+      : items.join(''),
+  sentence: (parts) => {
+    const text = parts.join(', ');
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  },
+  time: (hour, minute, second) =>
+    [hour, minute, ...(second ? [second] : [])]
+      .map((value) => String(value).padStart(2, '0'))
+      .join(':'),
+  ordinal: (n) =>
+    ['first', 'second', 'third', 'fourth', 'fifth'][n - 1] ?? `${n}th`,
+  months: [
+    'January',
+    'February',
+    'March',
+    'April',
+    'May',
+    'June',
+    'July',
+    'August',
+    'September',
+    'October',
+    'November',
+    'December',
+  ],
+  days: [
+    'Sunday',
+    'Monday',
+    'Tuesday',
+    'Wednesday',
+    'Thursday',
+    'Friday',
+    'Saturday',
+  ],
+  everySecond: 'every second',
+  everyMinute: 'every minute',
+  everyHour: 'every hour',
+  every: (n, unit) => (n === 1 ? `every ${unit}` : `every ${n} ${unit}s`),
+  amount: (n, unit) => (n === 1 ? `${n} ${unit}` : `${n} ${unit}s`),
+  everyDuration: (amounts) => `every ${amounts}`,
+  startingAt: (start) => `starting at ${start}`,
+  at: (times) => `at ${times}`,
+  atSeconds: (seconds) => `at ${seconds} seconds past the minute`,
+  secondsRange: (start, end) =>
+    `seconds ${start} through ${end} past the minute`,
+  atMinutes: (minutes) => `at ${minutes} minutes past the hour`,
+  minutesRange: (start, end) => `minutes ${start} through ${end} past the hour`,
+  between: (start, end) => `between ${start} and ${end}`,
+  duringHours: (hours) => `during hours ${hours}`,
+  onDaysOfMonth: (days) => `on day ${days} of the month`,
+  daysOfMonthRange: (start, end) =>
+    `between day ${start} and ${end} of the month`,
+  lastDayOfMonth: 'on the last day of the month',
+  lastWeekdayOfMonth: 'on the last weekday of the month',
+  nearestWeekday: (day) => `on the weekday nearest day ${day} of the month`,
+  inMonths: (months) => `only in ${months}`,
+  onDaysOfWeek: (days) => `only on ${days}`,
+  lastDayOfWeek: (day) => `on the last ${day} of the month`,
+  nthDayOfWeek: (day, nth) => `on the ${nth} ${day} of the month`,
+  eitherDay: (daysOfMonth, daysOfWeek) => `${daysOfMonth} or ${daysOfWeek}`,
+  inYears: (years) => `only in ${years}`,
+  range: (start, end) => `${start} through ${end}`,
+};
+
+/**
+ * The registered locales by name.
+ */
+const locales: Map<string, CronLocale> = new Map([['en', en]]);
+
+/**
+ * Registers a locale under a name so it can be selected by that name.
+ */
+const registerLocale = (name: string, locale: CronLocale): void => {
+  locales.set(name, locale);
+};
+
+/**
+ * Gets a locale table from its name, or returns the given table.
+ */
+const resolveLocale = (locale: string | CronLocale = 'en'): CronLocale => {
+  if (typeof locale !== 'string') {
+    return locale;
+  }
+  const table = locales.get(locale);
+  if (!table) {
+    throw new Error(`Unknown locale "${locale}"`);
+  }
+  return table;
+};
+
+/**
+ * Finds the shape of the sorted values of a field.
+ */
+const analyze = (
+  values: number[] | undefined,
+  min: number,
+  max: number,
+): Pattern => {
+  if (!values || values.length === max - min + 1) {
+    return { type: 'all' };
+  }
+  if (values.length === 1) {
+    return { type: 'single', value: values[0] };
+  }
+  const step = values[1] - values[0];
+  const regular = values.every(
+    (value, i) => i === 0 || value - values[i - 1] === step,
+  );
+  if (regular && step === 1) {
+    return { type: 'range', start: values[0], end: values[values.length - 1] };
+  }
+  if (
+    regular &&
+    values[0] - step < min &&
+    values[values.length - 1] + step > max
+  ) {
+    return { type: 'step', start: values[0], step };
+  }
+  return { type: 'list', values };
+};
+
+/**
+ * Describes a stepped field, e.g. `every 2 hours, starting at 01:00`.
+ */
+const describeStep = (
+  locale: CronLocale,
+  pattern: { start: number; step: number },
+  unit: CronDescriptionUnit,
+  min: number,
+  format: (value: number) => string,
+): string[] => [
+  locale.every(pattern.step, unit),
+  ...(pattern.start !== min ? [locale.startingAt(format(pattern.start))] : []),
+];
+
+/**
+ * Describes the time of the day, from the millisecond, second, minute and
+ * hour fields.
+ */
+const describeTime = (cronTime: CronTime, locale: CronLocale): string[] => {
+  const second = analyze(cronTime.second, 0, 59);
+  const minute = analyze(cronTime.minute, 0, 59);
+  const hour = analyze(cronTime.hour, 0, 23);
+
+  if (
+    second.type === 'single' &&
+    minute.type === 'single' &&
+    (hour.type === 'single' || hour.type === 'list')
+  ) {
+    const hours = hour.type === 'single' ? [hour.value] : hour.values;
+    return [
+      locale.at(
+        locale.list(
+          hours.map((h) => locale.time(h, minute.value, second.value)),
+        ),
+      ),
+    ];
+  }
+
+  const parts: string[] = [];
+  const millisecond = cronTime.millisecond
+    ? analyze(cronTime.millisecond, 0, 999)
+    : undefined;
+  // sub-second steps replace the second as the finest unit
+  if (millisecond?.type === 'step') {
+    parts.push(...describeStep(locale, millisecond, 'millisecond', 0, String));
+  }
+  const onTheMinute = second.type === 'single' && second.value === 0;
+  switch (second.type) {
+    case 'all':
+      if (millisecond?.type !== 'step') {
+        parts.push(locale.everySecond);
+      }
+      break;
+    case 'step':
+      parts.push(...describeStep(locale, second, 'second', 0, String));
+      break;
+    case 'single':
+      if (!onTheMinute) {
+        parts.push(locale.atSeconds(String(second.value)));
+      }
+      break;
+    case 'range':
+      parts.push(locale.secondsRange(String(second.start), String(second.end)));
+      break;
+    case 'list':
+      parts.push(locale.atSeconds(locale.list(second.values.map(String))));
+      break;
+  }
+
+  switch (minute.type) {
+    case 'all':
+      if (onTheMinute) {
+        parts.push(locale.everyMinute);
+      }
+      break;
+    case 'step':
+      parts.push(...describeStep(locale, minute, 'minute', 0, String));
+      break;
+    case 'single':
+      if (minute.value !== 0 || !onTheMinute) {
+        parts.push(locale.atMinutes(String(minute.value)));
+      } else if (hour.type !== 'step') {
+        parts.push(locale.everyHour);
+      }
+      break;
+    case 'range':
+      parts.push(locale.minutesRange(String(minute.start), String(minute.end)));
+      break;
+    case 'list':
+      parts.push(locale.atMinutes(locale.list(minute.values.map(String))));
+      break;
+  }
+
+  switch (hour.type) {
+    case 'step':
+      parts.push(
+        ...describeStep(locale, hour, 'hour', 0, (h) => locale.time(h, 0)),
+      );
+      break;
+    case 'single':
+      parts.push(
+        locale.between(locale.time(hour.value, 0), locale.time(hour.value, 59)),
+      );
+      break;
+    case 'range':
+      parts.push(
+        locale.between(locale.time(hour.start, 0), locale.time(hour.end, 59)),
+      );
+      break;
+    case 'list':
+      parts.push(
+        locale.duringHours(
+          locale.list(hour.values.map((h) => String(h).padStart(2, '0'))),
+        ),
+      );
+      break;
+  }
+  return parts;
+};
+
+/**
+ * Describes the day of the month field, including its special characters.
+ */
+const describeDayOfMonth = (
+  cronTime: CronTime,
+  locale: CronLocale,
+): string[] => {
+  const phrases: string[] = [];
+  if (cronTime.dayOfMonth?.length !== 0) {
+    const day = analyze(cronTime.dayOfMonth, 1, 31);
+    switch (day.type) {
+      case 'step':
+        phrases.push(...describeStep(locale, day, 'day', 1, String));
+        break;
+      case 'single':
+        phrases.push(locale.onDaysOfMonth(String(day.value)));
+        break;
+      case 'range':
+        phrases.push(
+          locale.daysOfMonthRange(String(day.start), String(day.end)),
+        );
+        break;
+      case 'list':
+        phrases.push(locale.onDaysOfMonth(locale.list(day.values.map(String))));
+        break;
+    }
+  }
+  if (cronTime.lastDayOfMonth) {
+    phrases.push(locale.lastDayOfMonth);
+  }
+  if (cronTime.lastWeekdayOfMonth) {
+    phrases.push(locale.lastWeekdayOfMonth);
+  }
+  cronTime.nearestWeekday?.forEach((day) =>
+    phrases.push(locale.nearestWeekday(String(day))),
+  );
+  return phrases.length ? [locale.list(phrases)] : [];
+};
+
+/**
+ * Describes a field made of named or plain values: the month, the day of the
+ * week or the year.
+ */
+const describeNamed = (
+  values: number[] | undefined,
+  min: number,
+  max: number,
+  unit: CronDescriptionUnit,
+  locale: CronLocale,
+  format: (value: number) => string,
+  phrase: (values: string) => string,
+): string[] => {
+  if (values?.length === 0) {
+    return [];
+  }
+  const pattern = analyze(values, min, max);
+  switch (pattern.type) {
+    case 'all':
+      return [];
+    case 'step':
+      return describeStep(locale, pattern, unit, min, format);
+    case 'single':
+      return [phrase(format(pattern.value))];
+    case 'range':
+      return [locale.range(format(pattern.start), format(pattern.end))];
+    case 'list':
+      return [phrase(locale.list(pattern.values.map(format)))];
+  }
+};
+
+/**
+ * Describes the day of the week field, including its special characters.
+ */
+const describeDayOfWeek = (
+  cronTime: CronTime,
+  locale: CronLocale,
+): string[] => {
+  const name = (day: number) => locale.days[day];
+  const values = cronTime.dayOfWeek;
+  // a step over the days of the week reads better as a list of days
+  const phrases =
+    values && analyze(values, 0, 6).type === 'step'
+      ? [locale.onDaysOfWeek(locale.list(values.map(name)))]
+      : describeNamed(values, 0, 6, 'day', locale, name, locale.onDaysOfWeek);
+  cronTime.lastDayOfWeek?.forEach((day) =>
+    phrases.push(locale.lastDayOfWeek(name(day))),
+  );
+  cronTime.nthDayOfWeek?.forEach(([day, nth]) =>
+    phrases.push(locale.nthDayOfWeek(name(day), locale.ordinal(nth))),
+  );
+  return phrases.length ? [locale.list(phrases)] : [];
+};
+
+/**
+ * The units the elapsed part of an interval is described in, the largest
+ * first.
+ */
+const INTERVAL_UNITS: [number, CronDescriptionUnit][] = [
+  [3_600_000, 'hour'],
+  [60_000, 'minute'],
+  [1000, 'second'],
+  [1, 'millisecond'],
+];
+
+/**
+ * Describes the fixed interval of an `@every` preset, each part in the
+ * largest unit dividing it, e.g. `every 90 minutes` or `every 1 day and 12
+ * hours`.
+ */
+const describeInterval = (
+  interval: CronInterval,
+  locale: CronLocale,
+): string[] => {
+  const parts: [number, CronDescriptionUnit][] = [];
+  if (interval.months) {
+    parts.push(
+      interval.months % 12
+        ? [interval.months, 'month']
+        : [interval.months / 12, 'year'],
+    );
+  }
+  if (interval.days) {
+    parts.push([interval.days, 'day']);
+  }
+  if (interval.milliseconds) {
+    const [size, unit] = INTERVAL_UNITS.find(
+      ([size]) => interval.milliseconds % size === 0,
+    )!;
+    parts.push([interval.milliseconds / size, unit]);
+  }
+  if (parts.length > 1) {
+    return [
+      locale.everyDuration(
+        locale.list(parts.map(([n, unit]) => locale.amount(n, unit))),
+      ),
+    ];
+  }
+  const [[n, unit]] = parts;
+  const single: Partial<Record<CronDescriptionUnit, string>> = {
+    second: locale.everySecond,
+    minute: locale.everyMinute,
+    hour: locale.everyHour,
+  };
+  return [n === 1 && single[unit] ? single[unit]! : locale.every(n, unit)];
+};
+
+/**
+ * Describes a parsed cron expression in the language of the given locale.
+ * @returns A human-readable description, e.g. `Every 5 minutes, between 09:00 and 17:59, Monday through Friday`.
+ */
+const describe = (cronTime: CronTime, locale: CronLocale): string => {
+  if (cronTime.interval) {
+    return locale.sentence(describeInterval(cronTime.interval, locale));
+  }
+  // the days of the week read as plain names after the days of the month
+  const days = cronTime.eitherDay
+    ? [
+        locale.eitherDay(
+          describeDayOfMonth(cronTime, locale).join(''),
+          describeDayOfWeek(cronTime, {
+            ...locale,
+            onDaysOfWeek: (days) => days,
+          }).join(''),
+        ),
+      ]
+    : describeDayOfMonth(cronTime, locale);
+  return locale.sentence([
+    ...describeTime(cronTime, locale),
+    ...days,
+    ...describeNamed(
+      cronTime.month,
+      1,
+      12,
+      'month',
+      locale,
+      (month) => locale.months[month - 1],
+      locale.inMonths,
+    ),
+    ...(cronTime.eitherDay ? [] : describeDayOfWeek(cronTime, locale)),
+    ...describeNamed(
+      cronTime.year,
+      1970,
+      2099,
+      'year',
+      locale,
+      String,
+      locale.inYears,
+    ),
+  ]);
+};
+
+export { describe, registerLocale, resolveLocale };
@@ -0,0 +1,91 @@
+import {
+  type CronAction,
+  type CronValidationError,
+  type Status,
+} from '@/lib/types';
+
+/**
+ * An error thrown when a cron expression can't be parsed, carrying a
+ * diagnostic for each invalid part of the expression.
+ */
+class CronParseError extends Error {
+  /**
+   * The cron expression that failed to parse.
+   */
+  readonly expression: string;
+  /**
+   * The diagnostics of the invalid parts of the expression.
+   */
+  readonly errors: CronValidationError[];
+
+  /**
+   * Creates a new instance of the `CronParseError` class.
+   */
+  constructor(expression: string, errors: CronValidationError[]) {
+    super(
+      `Invalid cron expression "${expression}": ${errors
+        .map((error) => error.message)
+        .join(', ')}`,
+    );
+    this.name = 'CronParseError';
+    this.expression = expression;
+    this.errors = errors;
+  }
+}
+
+/**
+ * An error failing an attempt of a cron job that exceeded its timeout, the
+ * reason its signal is aborted with.
+ */
+class CronTimeoutError extends Error {
+  /**
+   * The name of the cron job that timed out.
+   */
+  readonly job: string;
+  /**
+   * The timeout exceeded in milliseconds.
+   */
+  readonly timeout: number;
+
+  /**
+   * Creates a new instance of the `CronTimeoutError` class.
+   */
+  constructor(job: string, timeout: number) {
+    super(`Cron job "${job}" timed out after ${timeout}ms`);
+    this.name = 'CronTimeoutError';
+    this.job = job;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * An error thrown when a cron job is asked to change its status in a way its
+ * current status doesn't allow, e.g. starting a destroyed job.
+ */
+class CronStateError extends Error {
+  /**
+   * The name of the cron job.
+   */
+  readonly job: string;
+  /**
+   * The change of status that was refused.
+   */
+  readonly action: CronAction;
+  /**
+   * The status of the cron job when the change was refused.
+   */
+  readonly status: Status;
+
+  /**
+   * Creates a new instance of the `CronStateError` class.
+   */
+  constructor(job: string, action: CronAction, status: Status) {
+    super(`Cannot ${action} cron job "${job}" while it is ${status}`);
+    this.name = 'CronStateError';
+    this.job = job;
+    this.action = action;
+    this.status = status;
+  }
+}
+
+export { CronParseError, CronTimeoutError, CronStateError };
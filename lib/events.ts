@@ -0,0 +1,71 @@
+/**
+ * A listener registered on an event emitter.
+ */
+type Listener<T> = {
+  handler: (payload: T) => void;
+  once: boolean;
+};
+
+/**
+ * A minimal event emitter typed by a map of event names to payloads.
+ */
+class EventEmitter<Events extends Record<string, unknown>> {
+  private listeners: { [E in keyof Events]?: Listener<Events[E]>[] } = {};
+
+  /**
+   * Registers a handler called each time the event is emitted.
+   */
+  on<E extends keyof Events>(
+    event: E,
+    handler: (payload: Events[E]) => void,
+  ): void {
+    this.listeners[event] = [
+      ...(this.listeners[event] || []),
+      { handler, once: false },
+    ];
+  }
+
+  /**
+   * Registers a handler called the next time the event is emitted only.
+   */
+  once<E extends keyof Events>(
+    event: E,
+    handler: (payload: Events[E]) => void,
+  ): void {
+    this.listeners[event] = [
+      ...(this.listeners[event] || []),
+      { handler, once: true },
+    ];
+  }
+
+  /**
+   * Unregisters a handler registered with `on` or `once`.
+   */
+  off<E extends keyof Events>(
+    event: E,
+    handler: (payload: Events[E]) => void,
+  ): void {
+    this.listeners[event] = this.listeners[event]?.filter(
+      (listener) => listener.handler !== handler,
+    );
+  }
+
+  /**
+   * Calls the handlers of the event. A throwing handler never breaks the
+   * scheduling of the cron jobs, nor the other handlers.
+   */
+  emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+    const listeners = this.listeners[event];
+    if (!listeners?.length) {
+      return;
+    }
+    this.listeners[event] = listeners.filter((listener) => !listener.once);
+    listeners.forEach(({ handler }) => {
+      try {
+        handler(payload);
+      } catch (e) {}
+    });
+  }
+}
+
+export { EventEmitter };
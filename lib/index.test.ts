@@ -1,4 +1,20 @@
-import { Baker, Cron, CronParser } from '@/dist';
+import {
+  type ICron,
+  type CronOptions,
+  type OverlapPolicy,
+  Baker,
+  Cron,
+  CronParser,
+  CronParseError,
+  CronTimeoutError,
+  FileStorage,
+  MemoryStorage,
+  SqliteStorage,
+  VirtualClock,
+} from '@/dist';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import {
   expect,
   describe,
@@ -7,6 +23,7 @@ import {
   beforeEach,
   jest,
   Mock,
+  setSystemTime,
 } from 'bun:test';
 
 describe('Baker', () => {
@@ -37,6 +54,35 @@ describe('Baker', () => {
     expect(cron).toBeDefined();
   });
 
+  it('should get the occurrences of a cron job by name', () => {
+    baker.add({
+      name: 'test',
+      cron: '0 0 * * * *',
+      callback: jest.fn(),
+      timezone: 'UTC',
+    });
+    const from = new Date('2024-01-01T10:30:00Z');
+    expect(baker.take('test', 2, from).map((d) => d.toISOString())).toEqual([
+      '2024-01-01T11:00:00.000Z',
+      '2024-01-01T12:00:00.000Z',
+    ]);
+    expect(
+      baker.between('test', from, new Date('2024-01-02T10:30:00Z')),
+    ).toHaveLength(24);
+    expect(baker.take('unknown', 2)).toEqual([]);
+  });
+
+  it('should reject invalid cron expressions', () => {
+    expect(() =>
+      baker.add({
+        name: 'test',
+        cron: '99 * * * * *' as string,
+        callback: jest.fn(),
+      }),
+    ).toThrow('Invalid cron expression "99 * * * * *"');
+    expect(baker.isRunning('test')).toBeFalsy();
+  });
+
   it('should remove a cron job', () => {
     baker.add({
       name: 'test',
@@ -149,6 +195,1616 @@ describe('CronParser', () => {
     const previousExecution = parser.getPrevious();
     expect(previousExecution).toBeInstanceOf(Date);
   });
+
+  it('should evaluate the cron expression in the given time zone', () => {
+    const next = new CronParser('0 0 9 * * *', {
+      timezone: 'Asia/Tokyo',
+    }).getNext();
+    expect(next.getUTCHours()).toBe(0);
+    expect(next.getUTCMinutes()).toBe(0);
+    expect(next.getTime()).toBeGreaterThan(Date.now());
+    expect(next.getTime() - Date.now()).toBeLessThanOrEqual(86_400_000);
+
+    const previous = Cron.getPrevious('0 30 9 * * *', {
+      timezone: 'Asia/Kolkata',
+    });
+    expect(previous.getUTCHours()).toBe(4);
+    expect(previous.getUTCMinutes()).toBe(0);
+  });
+
+  it('should jump straight to distant occurrences', () => {
+    const next = new CronParser('@yearly', { timezone: 'UTC' }).getNext();
+    expect(next.getUTCMonth()).toBe(0);
+    expect(next.getUTCDate()).toBe(1);
+    expect(next.getUTCHours()).toBe(0);
+    const leap = new CronParser('0 0 12 29 2 *', { timezone: 'UTC' });
+    expect(leap.getNext().getUTCDate()).toBe(29);
+    expect(leap.getPrevious().getUTCMonth()).toBe(1);
+  });
+
+  it('should get the occurrences around a date', () => {
+    const parser = new CronParser('0 */15 * * * *', { timezone: 'UTC' });
+    const from = new Date('2024-01-01T10:20:00Z');
+    expect(parser.getNext(from).toISOString()).toBe('2024-01-01T10:30:00.000Z');
+    expect(parser.take(3, from).map((d) => d.toISOString())).toEqual([
+      '2024-01-01T10:30:00.000Z',
+      '2024-01-01T10:45:00.000Z',
+      '2024-01-01T11:00:00.000Z',
+    ]);
+    expect(parser.takePrevious(2, from).map((d) => d.toISOString())).toEqual([
+      '2024-01-01T10:15:00.000Z',
+      '2024-01-01T10:00:00.000Z',
+    ]);
+    expect(
+      parser.between(
+        new Date('2024-01-01T00:00:00Z'),
+        new Date('2024-01-01T01:00:00Z'),
+      ),
+    ).toHaveLength(5);
+
+    const dates: Date[] = [];
+    for (const date of Cron.occurrences('@daily', { timezone: 'UTC', from })) {
+      if (dates.push(date) === 3) {
+        break;
+      }
+    }
+    expect(dates.map((d) => d.toISOString())).toEqual([
+      '2024-01-02T00:00:00.000Z',
+      '2024-01-03T00:00:00.000Z',
+      '2024-01-04T00:00:00.000Z',
+    ]);
+    expect(Cron.take('0 0 0 31 2 *', 3)).toEqual([]);
+  });
+
+  it('should parse the unix and quartz formats', () => {
+    const from = new Date('2024-01-01T10:20:00Z');
+    const unix = new CronParser('30  9 * * 1-5', { timezone: 'UTC' });
+    expect(unix.parse().second).toEqual([0]);
+    expect(unix.getNext(from).toISOString()).toBe('2024-01-02T09:30:00.000Z');
+
+    const quartz = new CronParser('0 0 12 1 1 * 2030', { timezone: 'UTC' });
+    expect(quartz.parse().year).toEqual([2030]);
+    expect(quartz.take(2, from).map((d) => d.toISOString())).toEqual([
+      '2030-01-01T12:00:00.000Z',
+    ]);
+    expect(() =>
+      new CronParser('0 0 12 1 1 * 2020').getNext(from),
+    ).toThrow('No future occurrence');
+
+    expect(() =>
+      new CronParser('* * * * *', { format: 'seconds' }).parse(),
+    ).toThrow();
+    expect(() => new CronParser('* * * *' as string).parse()).toThrow();
+  });
+
+  it('should parse the milliseconds format and presets', () => {
+    const from = new Date('2024-01-01T10:00:00.100Z');
+    const iso = (dates: Date[]) => dates.map((d) => d.toISOString());
+    const parser = new CronParser('0,500 * * * * * *', {
+      format: 'milliseconds',
+      timezone: 'UTC',
+    });
+    expect(parser.parse().millisecond).toEqual([0, 500]);
+    expect(iso(parser.take(3, from))).toEqual([
+      '2024-01-01T10:00:00.500Z',
+      '2024-01-01T10:00:01.000Z',
+      '2024-01-01T10:00:01.500Z',
+    ]);
+    expect(parser.getPrevious(from).toISOString()).toBe(
+      '2024-01-01T10:00:00.000Z',
+    );
+    expect(
+      iso(new CronParser('@every_250_milliseconds').take(2, from)),
+    ).toEqual(['2024-01-01T10:00:00.250Z', '2024-01-01T10:00:00.500Z']);
+    expect(
+      new CronParser('1000 * * * * * *' as string, {
+        format: 'milliseconds',
+      }).validate().errors[0].field,
+    ).toBe('millisecond');
+    expect(Cron.describe('@every_500_milliseconds')).toBe(
+      'Every 500 milliseconds',
+    );
+  });
+
+  it('should run the @every presets at fixed intervals from their anchor', () => {
+    const anchor = new Date('2024-01-31T10:00:00Z');
+    const from = new Date('2024-03-30T00:00:00Z');
+    const iso = (dates: Date[]) => dates.map((d) => d.toISOString());
+    const take = (cron: string, timezone = 'UTC') =>
+      iso(new CronParser(cron, { anchor, timezone }).take(2, from));
+
+    ['@every_90_minutes', '@every_PT1H30M', '@every_1h30m'].forEach((cron) =>
+      expect(take(cron)).toEqual([
+        '2024-03-30T01:00:00.000Z',
+        '2024-03-30T02:30:00.000Z',
+      ]),
+    );
+    expect(
+      iso(new CronParser('@every_1h30m', { anchor }).takePrevious(1, from)),
+    ).toEqual(['2024-03-29T23:30:00.000Z']);
+    // months fall on the last day of shorter months
+    expect(take('@every_P1M')).toEqual([
+      '2024-03-31T10:00:00.000Z',
+      '2024-04-30T10:00:00.000Z',
+    ]);
+    // days follow the wall-clock time across daylight saving time
+    expect(take('@every_1d', 'Europe/Berlin')).toEqual([
+      '2024-03-30T10:00:00.000Z',
+      '2024-03-31T09:00:00.000Z',
+    ]);
+    // without an anchor, intervals are counted from midnight
+    expect(
+      iso(
+        new CronParser('@every_90_minutes', { timezone: 'UTC' }).take(2, from),
+      ),
+    ).toEqual(['2024-03-30T01:30:00.000Z', '2024-03-30T03:00:00.000Z']);
+    expect(Cron.describe('@every_PT1H30M')).toBe('Every 90 minutes');
+    expect(Cron.describe('@every_P1D')).toBe('Every day');
+    expect(Cron.describe('@every_1d12h')).toBe('Every 1 day and 12 hours');
+    expect(Cron.describe('@every_P1M15D')).toBe('Every 1 month and 15 days');
+    ['@every_PT', '@every_0m', '@every_1x', '@every_1.5h'].forEach((cron) =>
+      expect(Cron.isValid(cron as string)).toBeFalsy(),
+    );
+  });
+
+  it('should combine the custom presets', () => {
+    const from = new Date('2026-10-19T10:07:00Z'); // a Monday
+    const next = (cron: string) =>
+      new CronParser(cron, { timezone: 'UTC' })
+        .take(2, from)
+        .map((d) => d.toISOString());
+
+    expect(next('@on_sunday')).toEqual([
+      '2026-10-25T00:00:00.000Z',
+      '2026-11-01T00:00:00.000Z',
+    ]);
+    expect(next('@on_monday@at_09:30')).toEqual([
+      '2026-10-26T09:30:00.000Z',
+      '2026-11-02T09:30:00.000Z',
+    ]);
+    expect(next('@on_monday,wednesday')).toEqual([
+      '2026-10-21T00:00:00.000Z',
+      '2026-10-26T00:00:00.000Z',
+    ]);
+    expect(next('@every_weekday@at_9:00')).toEqual([
+      '2026-10-20T09:00:00.000Z',
+      '2026-10-21T09:00:00.000Z',
+    ]);
+    expect(next('@every_weekend')).toEqual([
+      '2026-10-24T00:00:00.000Z',
+      '2026-10-25T00:00:00.000Z',
+    ]);
+    // combined, @every presets step through their field
+    expect(next('@on_friday@between_9_17@every_15_minutes')).toEqual([
+      '2026-10-23T09:00:00.000Z',
+      '2026-10-23T09:15:00.000Z',
+    ]);
+    ['@on_monday@every_weekend', '@daily@at_9:00', '@on_funday'].forEach(
+      (cron) => expect(Cron.isValid(cron as string)).toBeFalsy(),
+    );
+  });
+
+  it('should match either day when both day fields are restricted', () => {
+    const days = (cron: string) =>
+      new CronParser(cron, { timezone: 'UTC' })
+        .take(3, new Date('2024-04-25T00:00:00Z'))
+        .map((d) => d.toISOString().slice(0, 10));
+
+    // every 1st of the month and every Monday, as in Vixie cron
+    expect(days('0 0 1 * 1')).toEqual([
+      '2024-04-29',
+      '2024-05-01',
+      '2024-05-06',
+    ]);
+    // a field starting with a wildcard still restricts the other one
+    expect(days('0 0 */2 * 1')).toEqual([
+      '2024-04-29',
+      '2024-05-13',
+      '2024-05-27',
+    ]);
+    expect(Cron.describe('0 0 1 * 1')).toBe(
+      'At 00:00, on day 1 of the month or Monday',
+    );
+  });
+
+  it('should support the quartz special characters', () => {
+    const days = (cron: string, from: string, n = 1) =>
+      new CronParser(cron, { timezone: 'UTC' })
+        .take(n, new Date(from))
+        .map((d) => d.toISOString().slice(0, 10));
+
+    expect(days('0 0 0 L * ?', '2024-02-01T00:00:00Z')).toEqual(['2024-02-29']);
+    expect(days('0 0 0 LW * ?', '2024-08-01T00:00:00Z')).toEqual([
+      '2024-08-30',
+    ]);
+    expect(days('0 0 0 15W * ?', '2024-06-01T00:00:00Z')).toEqual([
+      '2024-06-14',
+    ]);
+    expect(days('0 0 0 1W * ?', '2024-05-31T00:00:00Z')).toEqual([
+      '2024-06-03',
+    ]);
+    expect(days('0 0 0 ? * 5L', '2024-01-01T00:00:00Z', 2)).toEqual([
+      '2024-01-26',
+      '2024-02-23',
+    ]);
+    expect(days('0 0 0 ? * 2#2', '2024-01-01T00:00:00Z', 2)).toEqual([
+      '2024-01-09',
+      '2024-02-13',
+    ]);
+    expect(new CronParser('0 0 0 L,15W * ?').parse()).toMatchObject({
+      dayOfMonth: [],
+      lastDayOfMonth: true,
+      nearestWeekday: [15],
+    });
+  });
+
+  it('should parse combined lists, ranges, steps and names', () => {
+    const cronTime = new CronParser(
+      '1-5,10,20-30/2 */15,7 5/6 * jan-Mar,DEC 5-7',
+    ).parse();
+    expect(cronTime.second).toEqual([1, 2, 3, 4, 5, 10, 20, 22, 24, 26, 28, 30]);
+    expect(cronTime.minute).toEqual([0, 7, 15, 30, 45]);
+    expect(cronTime.hour).toEqual([5, 11, 17, 23]);
+    expect(cronTime.month).toEqual([1, 2, 3, 12]);
+    expect(cronTime.dayOfWeek).toEqual([0, 5, 6]);
+    expect(new CronParser('* * * * MON-FRI,sun').parse().dayOfWeek).toEqual([
+      0, 1, 2, 3, 4, 5,
+    ]);
+    expect(new CronParser('0 0 0 ? * FRI#2,SUNL').parse()).toMatchObject({
+      nthDayOfWeek: [[5, 2]],
+      lastDayOfWeek: [0],
+    });
+  });
+
+  it('should throw for expressions without any occurrence', () => {
+    const parser = new CronParser('0 0 0 31 2 *');
+    expect(() => parser.getNext()).toThrow('No future occurrence');
+    expect(() => parser.getPrevious()).toThrow('No past occurrence');
+  });
+
+  it('should reject unknown time zones', () => {
+    expect(
+      () => new CronParser('* * * * * *', { timezone: 'Mars/Olympus' }),
+    ).toThrow();
+  });
+});
+
+describe('Cron validation', () => {
+  it('should report every invalid field', () => {
+    const result = Cron.validate('99 */0 1-x * FOO 1#9');
+    expect(result.valid).toBeFalsy();
+    expect(result.errors).toEqual([
+      {
+        field: 'second',
+        token: '99',
+        position: 0,
+        message: 'Value 99 is out of the range 0-59 of the second field',
+      },
+      {
+        field: 'minute',
+        token: '*/0',
+        position: 3,
+        message: 'Invalid step "0" in the minute field',
+      },
+      {
+        field: 'hour',
+        token: 'x',
+        position: 9,
+        message: 'Invalid value "x" in the hour field',
+      },
+      {
+        field: 'month',
+        token: 'FOO',
+        position: 13,
+        message: 'Invalid value "FOO" in the month field',
+      },
+      {
+        field: 'dayOfWeek',
+        token: '1#9',
+        position: 17,
+        message: 'Invalid occurrence "9" in the dayOfWeek field, expected 1-5',
+      },
+    ]);
+    expect(Cron.isValid('99 * * * * *')).toBeFalsy();
+  });
+
+  it('should quote the day items as written', () => {
+    expect(
+      Cron.validate('0 0 0 qux * 1,b' as string).errors.map(
+        ({ token, message }) => [token, message],
+      ),
+    ).toEqual([
+      ['qux', 'Invalid value "qux" in the dayOfMonth field'],
+      ['b', 'Invalid value "b" in the dayOfWeek field'],
+    ]);
+    expect(Cron.isValid('0 0 0 lw * ?')).toBeTruthy();
+  });
+
+  it('should report invalid expressions as a whole', () => {
+    expect(Cron.validate('* * * *').errors[0]).toMatchObject({
+      field: 'expression',
+      message: 'Expected 5, 6 or 7 fields but got 4',
+    });
+    expect(Cron.validate('@every_5_weeks' as string).errors[0]).toMatchObject({
+      field: 'expression',
+      message: 'Unknown preset "@every_5_weeks"',
+    });
+    expect(Cron.validate('@at_25:00').errors[0]).toMatchObject({
+      field: 'hour',
+      position: 0,
+    });
+  });
+
+  it('should check cron expression literals at the type level', () => {
+    expect(Cron.getNext('*/5 9-17 * jan-MAR MON-FRI')).toBeInstanceOf(Date);
+    // @ts-expect-error the hour is out of range
+    expect(() => Cron.getNext('0 0 25 * * *')).toThrow(
+      'Value 25 is out of the range 0-23 of the hour field',
+    );
+    // @ts-expect-error the preset is unknown
+    expect(() => new CronParser('@fortnightly').parse()).toThrow(
+      'Unknown preset "@fortnightly"',
+    );
+    // strings that are not literals are only checked at runtime
+    const cron: string = 'foo bar baz qux a b';
+    expect(() => Cron.getNext(cron)).toThrow('Invalid value "foo"');
+  });
+
+  it('should check preset literals at the type level', () => {
+    [
+      Cron.getNext('@every_P1DT12H'),
+      Cron.getNext('@every_1d12h'),
+      Cron.getNext('@every_15_minutes@between_9_17@on_monday'),
+    ].forEach((date) => expect(date).toBeInstanceOf(Date));
+    // @ts-expect-error the hour is out of range
+    expect(() => Cron.getNext('@at_99:99')).toThrow();
+    // @ts-expect-error the end of the range is out of range
+    expect(() => Cron.getNext('@between_30_99')).toThrow();
+    // @ts-expect-error the interval is not a number
+    expect(() => Cron.getNext('@every_foo_seconds')).toThrow();
+    // @ts-expect-error the ISO 8601 duration is invalid
+    expect(() => Cron.getNext('@every_Pxyz')).toThrow();
+    // @ts-expect-error the compound duration is invalid
+    expect(() => Cron.getNext('@every_1mfoo')).toThrow();
+    // @ts-expect-error the day is unknown
+    expect(() => Cron.getNext('@on_monday,funday')).toThrow();
+    // @ts-expect-error the last preset is unknown
+    expect(() => Cron.getNext('@on_monday@at_09:30@garbage')).toThrow();
+    // @ts-expect-error the hour is set twice
+    expect(() => Cron.getNext('@at_09:30@between_9_17')).toThrow();
+  });
+
+  it('should throw a typed error when parsing', () => {
+    try {
+      new CronParser('0 0 12 5-1 * *').parse();
+      throw new Error('Expected a CronParseError');
+    } catch (e) {
+      expect(e).toBeInstanceOf(CronParseError);
+      expect((e as CronParseError).errors[0].field).toBe('dayOfMonth');
+    }
+  });
+
+  it('should accept valid expressions', () => {
+    [
+      '* * * * * *',
+      '0 0 0 L * ?',
+      '@daily',
+      '0 0 12 ? JAN-MAR SUN#1 2030',
+    ].forEach((cron) =>
+      expect(Cron.validate(cron)).toEqual({ valid: true, errors: [] }),
+    );
+  });
+});
+
+describe('Cron descriptions', () => {
+  it('should describe cron expressions in english', () => {
+    const cases: [string, string][] = [
+      [
+        '0 */5 9-17 * * 1-5',
+        'Every 5 minutes, between 09:00 and 17:59, Monday through Friday',
+      ],
+      ['* * * * * *', 'Every second'],
+      ['@hourly', 'Every hour'],
+      ['@daily', 'At 00:00'],
+      ['@every_15_seconds', 'Every 15 seconds'],
+      ['@at_9:30', 'At 09:30'],
+      ['@between_9_17', 'Every hour, between 09:00 and 17:59'],
+      ['@on_monday@at_09:30', 'At 09:30, only on Monday'],
+      [
+        '@between_9_17@every_15_minutes',
+        'Every 15 minutes, between 09:00 and 17:59',
+      ],
+      ['0 0 9,12,18 * * *', 'At 09:00, 12:00 and 18:00'],
+      [
+        '30 15 10 1,15 JAN-MAR *',
+        'At 10:15:30, on day 1 and 15 of the month, January through March',
+      ],
+      ['0 0 0 L * ?', 'At 00:00, on the last day of the month'],
+      [
+        '0 0 12 ? * FRI#2,SUNL',
+        'At 12:00, on the last Sunday of the month and on the second Friday of the month',
+      ],
+      ['0 0 */2 * * *', 'Every 2 hours'],
+      ['0 0 1/2 * * *', 'Every 2 hours, starting at 01:00'],
+      ['5 * * * * *', 'At 5 seconds past the minute'],
+      [
+        '0 30 * * * 0,6',
+        'At 30 minutes past the hour, only on Sunday and Saturday',
+      ],
+      [
+        '0 0 12 1 1 * 2030',
+        'At 12:00, on day 1 of the month, only in January, only in 2030',
+      ],
+    ];
+    cases.forEach(([cron, description]) =>
+      expect(Cron.describe(cron)).toBe(description),
+    );
+  });
+
+  it('should describe cron expressions with a custom locale', () => {
+    const days = ['dim', 'lun', 'mar', 'mer', 'jeu', 'ven', 'sam'];
+    Cron.registerLocale('test', {
+      list: (items) => items.join(' et '),
+      sentence: (parts) => parts.join(', '),
+      time: (hour, minute) => `${hour}h${String(minute).padStart(2, '0')}`,
+      ordinal: String,
+      months: [],
+      days,
+      everySecond: 'chaque seconde',
+      everyMinute: 'chaque minute',
+      everyHour: 'chaque heure',
+      every: (n, unit) => `toutes les ${n} ${unit}`,
+      amount: (n, unit) => `${n} ${unit}`,
+      everyDuration: (amounts) => `toutes les ${amounts}`,
+      startingAt: (start) => `à partir de ${start}`,
+      at: (times) => `à ${times}`,
+      atSeconds: (seconds) => seconds,
+      secondsRange: (start, end) => `${start}-${end}`,
+      atMinutes: (minutes) => minutes,
+      minutesRange: (start, end) => `${start}-${end}`,
+      between: (start, end) => `entre ${start} et ${end}`,
+      duringHours: (hours) => hours,
+      onDaysOfMonth: (days) => days,
+      daysOfMonthRange: (start, end) => `${start}-${end}`,
+      lastDayOfMonth: 'L',
+      lastWeekdayOfMonth: 'LW',
+      nearestWeekday: (day) => day,
+      inMonths: (months) => months,
+      onDaysOfWeek: (days) => `le ${days}`,
+      lastDayOfWeek: (day) => day,
+      nthDayOfWeek: (day) => day,
+      eitherDay: (daysOfMonth, daysOfWeek) => `${daysOfMonth} ou ${daysOfWeek}`,
+      inYears: (years) => years,
+      range: (start, end) => `du ${start} au ${end}`,
+    });
+    expect(Cron.describe('0 0 9 * * 1-5', { locale: 'test' })).toBe(
+      'à 9h00, du lun au ven',
+    );
+    expect(() => Cron.describe('@daily', { locale: 'xx' })).toThrow(
+      'Unknown locale "xx"',
+    );
+  });
+});
+
+describe('CronParser daylight saving time', () => {
+  const timezone = 'Europe/Berlin';
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  it('should run times skipped by the spring forward right after the gap', () => {
+    const parser = new CronParser('0 30 2 * * *', { timezone });
+    setSystemTime(new Date('2024-03-30T12:00:00Z'));
+    expect(parser.getNext().toISOString()).toBe('2024-03-31T01:00:00.000Z');
+    setSystemTime(new Date('2024-03-31T01:00:00Z'));
+    expect(parser.getNext().toISOString()).toBe('2024-04-01T00:30:00.000Z');
+    expect(parser.getPrevious().toISOString()).toBe(
+      '2024-03-30T01:30:00.000Z',
+    );
+  });
+
+  it('should run times repeated by the fall back once by default', () => {
+    const parser = new CronParser('0 30 2 * * *', { timezone });
+    setSystemTime(new Date('2024-10-26T12:00:00Z'));
+    expect(parser.getNext().toISOString()).toBe('2024-10-27T00:30:00.000Z');
+    setSystemTime(new Date('2024-10-27T00:30:00Z'));
+    expect(parser.getNext().toISOString()).toBe('2024-10-28T01:30:00.000Z');
+    setSystemTime(new Date('2024-10-27T02:00:00Z'));
+    expect(parser.getPrevious().toISOString()).toBe(
+      '2024-10-27T00:30:00.000Z',
+    );
+  });
+
+  it('should run times repeated by the fall back twice when asked to', () => {
+    const parser = new CronParser('0 30 2 * * *', {
+      timezone,
+      repeatedTimes: 'both',
+    });
+    setSystemTime(new Date('2024-10-27T00:30:00Z'));
+    expect(parser.getNext().toISOString()).toBe('2024-10-27T01:30:00.000Z');
+    setSystemTime(new Date('2024-10-27T02:00:00Z'));
+    expect(parser.getPrevious().toISOString()).toBe(
+      '2024-10-27T01:30:00.000Z',
+    );
+  });
+
+  it('should follow the elapsed time for jobs running every hour', () => {
+    const parser = new CronParser('0 */20 * * * *', { timezone });
+    setSystemTime(new Date('2024-03-31T00:50:00Z'));
+    expect(parser.getNext().toISOString()).toBe('2024-03-31T01:00:00.000Z');
+    setSystemTime(new Date('2024-10-27T00:50:00Z'));
+    expect(parser.getNext().toISOString()).toBe('2024-10-27T01:00:00.000Z');
+    setSystemTime(new Date('2024-10-27T01:05:00Z'));
+    expect(parser.getPrevious().toISOString()).toBe(
+      '2024-10-27T01:00:00.000Z',
+    );
+  });
+});
+
+describe('Storage', () => {
+  let directory: string;
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'cronbake-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should persist job states and run records with every storage', async () => {
+    const lastRun = new Date('2024-01-01T10:00:00Z');
+    const run = {
+      name: 'test',
+      startedAt: lastRun,
+      finishedAt: new Date('2024-01-01T10:00:01Z'),
+      success: false,
+      error: 'failed',
+    };
+    const memory = new MemoryStorage({ maxRuns: 2 });
+    const storages = [
+      () => memory,
+      () => new FileStorage(join(directory, 'jobs.json'), { maxRuns: 2 }),
+      () => new SqliteStorage(join(directory, 'jobs.db'), { maxRuns: 2 }),
+    ];
+    for (const create of storages) {
+      const storage = create();
+      await storage.saveJob({
+        name: 'test',
+        status: 'scheduled',
+        lastRun,
+        runs: 2,
+      });
+      await storage.saveJob({
+        name: 'other',
+        status: 'idle',
+        lastRun: null,
+      });
+      await storage.removeJob('other');
+      await storage.saveRun({ ...run, success: true, error: undefined });
+      await storage.saveRun(run);
+      await storage.saveRun(run);
+
+      // a new instance reads back what the previous one wrote
+      const reopened = create();
+      expect(await reopened.loadJobs()).toEqual([
+        { name: 'test', status: 'scheduled', lastRun, runs: 2 },
+      ]);
+      expect(await reopened.loadRuns('test')).toEqual([run, run]);
+      expect(await reopened.loadRuns('test', 1)).toEqual([run]);
+    }
+  });
+
+  it('should restore the state of the cron jobs of a baker', async () => {
+    const storage = new MemoryStorage();
+    const lastRun = new Date('2024-01-01T10:00:00Z');
+    await storage.saveJob({ name: 'running', status: 'scheduled', lastRun });
+    await storage.saveJob({
+      name: 'stopped',
+      status: 'idle',
+      lastRun: null,
+    });
+
+    const baker = new Baker({ storage });
+    const running = baker.add({
+      name: 'running',
+      cron: '@daily',
+      callback: jest.fn(),
+    });
+    await baker.ready();
+    const stopped = baker.add({
+      name: 'stopped',
+      cron: '@daily',
+      callback: jest.fn(),
+      start: true,
+    });
+    baker.add({ name: 'new', cron: '@daily', callback: jest.fn() });
+
+    expect(running.isRunning()).toBeTruthy();
+    expect(running.getState().lastRun).toEqual(lastRun);
+    expect(stopped.isRunning()).toBeFalsy();
+
+    baker.stop('running');
+    baker.remove('stopped');
+    await Bun.sleep(0);
+    expect(await storage.loadJobs()).toEqual([
+      { name: 'running', status: 'idle', lastRun, runs: 0 },
+      { name: 'new', status: 'idle', lastRun: null, runs: 0 },
+    ]);
+    baker.destroyAll();
+  });
+
+  it('should run the cron jobs of a baker whose storage fails to load', async () => {
+    const path = join(directory, 'jobs.json');
+    writeFileSync(path, '{ "jobs": ');
+    const clock = new VirtualClock(new Date('2024-01-01T10:00:00Z'));
+    const baker = new Baker({ storage: new FileStorage(path), clock });
+    const onStorageError = jest.fn();
+    baker.on('storage:error', onStorageError);
+    const callback = jest.fn();
+    const cron = baker.add({
+      name: 'test',
+      cron: '@every_1_minutes',
+      callback,
+      start: true,
+    });
+    await baker.ready();
+    expect(onStorageError.mock.calls[0][0].error).toBeInstanceOf(SyntaxError);
+    expect(cron.isRunning()).toBeTruthy();
+
+    // the failures to save are reported as well
+    await clock.advanceBy(60_000);
+    await Bun.sleep(10);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(onStorageError.mock.calls.length).toBeGreaterThan(1);
+
+    // the file is read again once repaired
+    writeFileSync(path, '{}');
+    await clock.advanceBy(60_000);
+    await Bun.sleep(10);
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(await new FileStorage(path).loadRuns('test')).toHaveLength(1);
+    baker.destroyAll();
+  });
+});
+
+describe('Cron misfires', () => {
+  let clock: VirtualClock;
+  const create = (options: Partial<CronOptions> = {}) => {
+    const callback = jest.fn();
+    const cron = Cron.create({
+      name: 'test',
+      cron: '0 * * * * *',
+      callback,
+      timezone: 'UTC',
+      clock,
+      ...options,
+    });
+    return { cron, callback };
+  };
+
+  it('should handle the missed runs with the misfire policy', async () => {
+    clock = new VirtualClock(new Date('2024-01-01T10:00:30Z'));
+    const jobs = {
+      skip: create({ misfire: 'skip' }),
+      runOnce: create({ misfire: 'runOnce' }),
+      runAll: create({ misfire: 'runAll' }),
+      capped: create({ misfire: 'runAll', maxCatchUp: 2 }),
+      restarted: create({ misfire: 'runAll' }),
+    };
+    const skipped = jest.fn();
+    jobs.skip.cron.on('run:skipped', skipped);
+    jobs.skip.cron.start();
+    jobs.runOnce.cron.start();
+    jobs.runAll.cron.start();
+    jobs.capped.cron.start();
+
+    // the process sleeps through the runs from 10:01 to 10:05
+    clock.jumpTo(new Date('2024-01-01T10:05:30Z'));
+    jobs.restarted.cron.restore({
+      name: 'test',
+      status: 'scheduled',
+      lastRun: new Date('2024-01-01T10:00:00Z'),
+    });
+    await clock.runAllDue();
+
+    expect(jobs.skip.callback).toHaveBeenCalledTimes(0);
+    expect(
+      skipped.mock.calls.map(([{ scheduledAt, reason }]) => [
+        scheduledAt.toISOString(),
+        reason,
+      ]),
+    ).toEqual(
+      ['10:01', '10:02', '10:03', '10:04', '10:05'].map((time) => [
+        `2024-01-01T${time}:00.000Z`,
+        'misfire',
+      ]),
+    );
+    expect(jobs.runOnce.callback).toHaveBeenCalledTimes(1);
+    expect(jobs.runAll.callback).toHaveBeenCalledTimes(5);
+    expect(jobs.capped.callback).toHaveBeenCalledTimes(2);
+    expect(jobs.restarted.callback).toHaveBeenCalledTimes(5);
+    expect(jobs.restarted.cron.nextExecution()).toEqual(
+      new Date('2024-01-01T10:06:00Z'),
+    );
+    Object.values(jobs).forEach(({ cron }) => cron.destroy());
+  });
+
+  it('should run late runs within the grace window', async () => {
+    clock = new VirtualClock(new Date('2024-01-01T10:00:59Z'));
+    const { cron, callback } = create({ misfire: 'skip', misfireGrace: 5000 });
+    cron.start();
+    clock.jumpTo(new Date('2024-01-01T10:01:03Z'));
+    await clock.runAllDue();
+    expect(callback).toHaveBeenCalledTimes(1);
+    cron.destroy();
+  });
+});
+
+describe('Cron overlaps', () => {
+  it('should handle the runs due while executing with the overlap policy', async () => {
+    const clock = new VirtualClock(new Date('2024-01-01T10:00:30Z'));
+    const resolvers: (() => void)[] = [];
+    const create = (overlap: OverlapPolicy) => {
+      const callback = jest.fn(
+        () => new Promise<void>((resolve) => resolvers.push(resolve)),
+      );
+      const cron = Cron.create({
+        name: overlap,
+        cron: '0 * * * * *',
+        callback,
+        timezone: 'UTC',
+        misfire: 'runAll',
+        overlap,
+        clock,
+      });
+      cron.start();
+      return { cron, callback };
+    };
+    const jobs = {
+      allow: create('allow'),
+      skip: create('skip'),
+      queue: create('queue'),
+      cancelPrevious: create('cancelPrevious'),
+    };
+
+    // three runs are due at once
+    clock.jumpTo(new Date('2024-01-01T10:03:30Z'));
+    await clock.runAllDue();
+    expect(jobs.allow.callback).toHaveBeenCalledTimes(3);
+    expect(jobs.skip.callback).toHaveBeenCalledTimes(1);
+    expect(jobs.queue.callback).toHaveBeenCalledTimes(1);
+    expect(jobs.cancelPrevious.callback).toHaveBeenCalledTimes(3);
+    Object.values(jobs).forEach(({ cron }) =>
+      expect(cron.isExecuting()).toBeTruthy(),
+    );
+
+    // completing the runs releases the queued ones
+    resolvers.splice(0).forEach((resolve) => resolve());
+    await clock.runAllDue();
+    expect(jobs.queue.callback).toHaveBeenCalledTimes(2);
+    expect(jobs.queue.cron.isExecuting()).toBeTruthy();
+    expect(jobs.allow.cron.isExecuting()).toBeFalsy();
+    expect(jobs.cancelPrevious.cron.isExecuting()).toBeFalsy();
+    Object.values(jobs).forEach(({ cron }) => cron.destroy());
+  });
+});
+
+describe('Cron states', () => {
+  it('should keep the pending runs of a paused cron job', async () => {
+    const clock = new VirtualClock(new Date('2024-01-01T10:00:30Z'));
+    const callback = jest.fn();
+    const cron = Cron.create({
+      name: 'test',
+      cron: '0 * * * * *',
+      callback,
+      timezone: 'UTC',
+      misfire: 'runAll',
+      clock,
+    });
+    cron.start();
+    await clock.advanceTo(new Date('2024-01-01T10:01:30Z'));
+    cron.pause();
+    await clock.advanceTo(new Date('2024-01-01T10:04:30Z'));
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(cron.getStatus()).toBe('paused');
+
+    // the runs missed while paused are handled by the misfire policy
+    cron.resume();
+    await clock.runAllDue();
+    expect(callback).toHaveBeenCalledTimes(4);
+    expect(cron.getMetrics().runs).toBe(4);
+    expect(cron.getStatus()).toBe('scheduled');
+    expect(cron.nextExecution()).toEqual(new Date('2024-01-01T10:05:00Z'));
+    cron.destroy();
+  });
+
+  it('should stop firing once the callback stops, pauses or destroys the cron job', async () => {
+    const clock = new VirtualClock(new Date('2024-01-01T10:00:30Z'));
+    const create = (action: 'stop' | 'pause' | 'destroy', maxRuns?: number) => {
+      const callback = jest.fn(() => cron[action]());
+      const cron: ICron = Cron.create({
+        name: action,
+        cron: '0 * * * * *',
+        callback,
+        misfire: 'runAll',
+        maxRuns,
+        timezone: 'UTC',
+        clock,
+        start: true,
+      });
+      return { cron, callback };
+    };
+    const jobs = [create('stop'), create('pause'), create('destroy')];
+    const last = create('destroy', 1);
+
+    // the catch-up runs stop as well
+    clock.jumpTo(new Date('2024-01-01T10:03:30Z'));
+    await clock.runAllDue();
+    await clock.advanceBy(5 * 60_000);
+    [...jobs, last].forEach(({ callback }) =>
+      expect(callback).toHaveBeenCalledTimes(1),
+    );
+    expect(jobs.map(({ cron }) => cron.getStatus())).toEqual([
+      'idle',
+      'paused',
+      'destroyed',
+    ]);
+    expect(last.cron.getStatus()).toBe('destroyed');
+  });
+
+  it('should stop firing once the callback destroys the cron jobs of a baker', async () => {
+    const clock = new VirtualClock(new Date('2024-01-01T10:00:00Z'));
+    const baker = Baker.create({ clock });
+    const callback = jest.fn(() => baker.destroyAll());
+    baker.add({
+      name: 'test',
+      cron: '@every_second',
+      callback,
+      start: true,
+    });
+    await clock.advanceBy(5000);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report the executing and errored statuses', async () => {
+    const clock = new VirtualClock(0);
+    let resolve = () => {};
+    const cron = Cron.create({
+      name: 'test',
+      cron: '@every_second',
+      callback: jest
+        .fn()
+        .mockImplementationOnce(
+          () => new Promise<void>((done) => (resolve = done)),
+        )
+        .mockImplementationOnce(() => {
+          throw new Error('failed');
+        }),
+      clock,
+    });
+    cron.start();
+    await clock.advanceBy(1000);
+    expect(cron.getStatus()).toBe('executing');
+    resolve();
+    await clock.advanceBy(1000);
+    expect(cron.getStatus()).toBe('errored');
+    await clock.advanceBy(1000);
+    expect(cron.getStatus()).toBe('scheduled');
+    cron.destroy();
+  });
+
+  it('should complete the cron jobs with no run left', async () => {
+    const clock = new VirtualClock(new Date('2024-12-31T23:59:59Z'));
+    const onComplete = jest.fn();
+    const cron = Cron.create({
+      name: 'test',
+      cron: '0 0 0 1 1 ? 2025',
+      callback: jest.fn(),
+      onComplete,
+      timezone: 'UTC',
+      clock,
+    });
+    cron.start();
+    await clock.advanceBy(2000);
+    expect(cron.getStatus()).toBe('completed');
+    expect(cron.getHistory()).toHaveLength(1);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(() => cron.start()).toThrow('while it is completed');
+    cron.destroy();
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse illegal changes of status', () => {
+    const cron = Cron.create({
+      name: 'test',
+      cron: '@daily',
+      callback: jest.fn(),
+    });
+    expect(() => cron.resume()).toThrow(
+      'Cannot resume cron job "test" while it is idle',
+    );
+    expect(() => cron.pause()).toThrow('while it is idle');
+    cron.start();
+    cron.pause();
+    expect(() => cron.start()).toThrow('while it is paused');
+    cron.destroy();
+    expect(() => cron.start()).toThrow(
+      'Cannot start cron job "test" while it is destroyed',
+    );
+    expect(() => cron.stop()).toThrow('while it is destroyed');
+  });
+
+  it('should pause and resume the cron jobs of a baker', () => {
+    const baker = Baker.create();
+    baker.add({ name: 'a', cron: '@daily', callback: jest.fn() });
+    baker.add({ name: 'b', cron: '@daily', callback: jest.fn() });
+    baker.bakeAll();
+    baker.pause('a');
+    expect(baker.getStatus('a')).toBe('paused');
+    baker.pauseAll();
+    expect(baker.getStatus('b')).toBe('paused');
+    baker.resumeAll();
+    expect(baker.getStatus('a')).toBe('scheduled');
+    expect(baker.getStatus('b')).toBe('scheduled');
+    baker.destroyAll();
+  });
+});
+
+describe('Run limits', () => {
+  it('should complete the cron jobs after their maximum number of runs', async () => {
+    const clock = new VirtualClock(new Date('2024-01-01T10:00:00Z'));
+    const callback = jest.fn();
+    const onComplete = jest.fn();
+    const cron = Cron.create({
+      name: 'test',
+      cron: '0 * * * * *',
+      callback,
+      onComplete,
+      maxRuns: 3,
+      timezone: 'UTC',
+      clock,
+    });
+    cron.start();
+    await clock.advanceTo(new Date('2024-01-01T10:10:00Z'));
+    expect(callback).toHaveBeenCalledTimes(3);
+    expect(cron.getStatus()).toBe('completed');
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should anchor the intervals of a cron job to its start', async () => {
+    const clock = new VirtualClock(new Date('2024-01-01T10:07:13Z'));
+    const callback = jest.fn();
+    const cron = Cron.create({
+      name: 'test',
+      cron: '@every_90_minutes',
+      callback,
+      clock,
+      start: true,
+    });
+    await clock.advanceTo(new Date('2024-01-01T14:00:00Z'));
+    expect(
+      callback.mock.calls.map(([{ scheduledAt }]) => scheduledAt.toISOString()),
+    ).toEqual(['2024-01-01T11:37:13.000Z', '2024-01-01T13:07:13.000Z']);
+    cron.destroy();
+  });
+
+  it('should only run the cron jobs within their active window', async () => {
+    const clock = new VirtualClock(new Date('2024-01-01T10:00:00Z'));
+    const callback = jest.fn();
+    const onComplete = jest.fn();
+    const cron = Cron.create({
+      name: 'test',
+      cron: '0 * * * * *',
+      callback,
+      onComplete,
+      startAt: new Date('2024-01-01T10:03:00Z'),
+      endAt: new Date('2024-01-01T10:05:30Z'),
+      timezone: 'UTC',
+      clock,
+    });
+    cron.start();
+    expect(cron.nextExecution()).toEqual(new Date('2024-01-01T10:03:00Z'));
+    await clock.advanceTo(new Date('2024-01-01T10:10:00Z'));
+    expect(
+      callback.mock.calls.map(([{ scheduledAt }]) => scheduledAt.toISOString()),
+    ).toEqual([
+      '2024-01-01T10:03:00.000Z',
+      '2024-01-01T10:04:00.000Z',
+      '2024-01-01T10:05:00.000Z',
+    ]);
+    expect(cron.getStatus()).toBe('completed');
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run the one-shot cron jobs of a baker once', async () => {
+    const clock = new VirtualClock(new Date('2024-01-01T10:00:00Z'));
+    const baker = Baker.create({ clock });
+    const at = jest.fn();
+    const delay = jest.fn();
+    const past = jest.fn();
+    const onComplete = jest.fn();
+    baker.add({
+      name: 'at',
+      at: new Date('2024-01-01T10:00:01.500Z'),
+      callback: at,
+      onComplete,
+    });
+    baker.once({ name: 'delay', delay: 250, callback: delay });
+    baker.once({
+      name: 'past',
+      at: new Date('2024-01-01T09:00:00Z'),
+      callback: past,
+    });
+
+    await clock.advanceBy(10000);
+    expect(at.mock.calls[0][0].scheduledAt).toEqual(
+      new Date('2024-01-01T10:00:01.500Z'),
+    );
+    expect(delay.mock.calls[0][0].scheduledAt).toEqual(
+      new Date('2024-01-01T10:00:00.250Z'),
+    );
+    expect(past.mock.calls[0][0].scheduledAt).toEqual(
+      new Date('2024-01-01T10:00:00.001Z'),
+    );
+    [at, delay, past].forEach((callback) =>
+      expect(callback).toHaveBeenCalledTimes(1),
+    );
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(baker.getStatus('at')).toBe('completed');
+    baker.destroyAll();
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+  it('should keep the run counts and completions across restarts', async () => {
+    const clock = new VirtualClock(new Date('2024-01-01T10:00:00Z'));
+    const storage = new MemoryStorage();
+    const callback = jest.fn();
+    const once = jest.fn();
+    let crons: ICron[] = [];
+    // a restart drops the cron jobs without touching the storage
+    const restart = async () => {
+      crons.forEach((cron) => cron.destroy());
+      const baker = Baker.create({ storage, clock });
+      crons = [
+        baker.add({
+          name: 'limited',
+          cron: '0 * * * * *',
+          callback,
+          maxRuns: 3,
+          timezone: 'UTC',
+        }),
+      ];
+      await baker.ready();
+      return baker;
+    };
+
+    let baker = await restart();
+    baker.bakeAll();
+    await clock.advanceTo(new Date('2024-01-01T10:02:00Z'));
+    expect(callback).toHaveBeenCalledTimes(2);
+
+    baker = await restart();
+    expect(baker.getStatus('limited')).toBe('scheduled');
+    await clock.advanceTo(new Date('2024-01-01T10:10:00Z'));
+    expect(callback).toHaveBeenCalledTimes(3);
+    expect(baker.getStatus('limited')).toBe('completed');
+
+    // a completed cron job isn't restarted with a fresh count
+    baker = await restart();
+    baker.bakeAll();
+    await clock.advanceTo(new Date('2024-01-01T10:20:00Z'));
+    expect(callback).toHaveBeenCalledTimes(3);
+    expect(baker.getStatus('limited')).toBe('completed');
+
+    // a one-shot cron job added again runs again
+    crons.push(baker.once({ name: 'once', delay: 1000, callback: once }));
+    await clock.advanceBy(2000);
+    baker = await restart();
+    crons.push(baker.once({ name: 'once', delay: 1000, callback: once }));
+    expect(baker.getStatus('once')).toBe('scheduled');
+    await clock.advanceBy(2000);
+    expect(once).toHaveBeenCalledTimes(2);
+    expect(baker.getStatus('once')).toBe('completed');
+    baker.destroyAll();
+  });
+});
+
+describe('Load spreading', () => {
+  it('should delay the runs by their jitter', async () => {
+    const clock = new VirtualClock(new Date('2024-01-01T10:00:00Z'));
+    const create = (name: string) => {
+      const callback = jest.fn();
+      const cron = Cron.create({
+        name,
+        cron: '@hourly',
+        callback,
+        jitter: { max: 10 * 60_000, mode: 'name' },
+        timezone: 'UTC',
+        start: true,
+        clock,
+      });
+      return { cron, callback };
+    };
+    const first = create('tenant-1');
+    const second = create('tenant-2');
+    const delay = (cron: { nextExecution: () => Date }) =>
+      cron.nextExecution().getTime() - Date.parse('2024-01-01T11:00:00Z');
+    const offset = delay(first.cron);
+    expect(offset).toBeGreaterThanOrEqual(0);
+    expect(offset).toBeLessThan(10 * 60_000);
+    expect(delay(second.cron)).not.toBe(offset);
+    // the delay derived from the name is the same for each run
+    expect(delay(create('tenant-1').cron)).toBe(offset);
+
+    await clock.advanceTo(new Date('2024-01-01T12:10:00Z'));
+    expect(
+      first.callback.mock.calls.map(([context]) => [
+        context.scheduledAt.toISOString(),
+        context.firedAt.getTime() - context.scheduledAt.getTime(),
+        context.drift,
+      ]),
+    ).toEqual([
+      ['2024-01-01T11:00:00.000Z', offset, 0],
+      ['2024-01-01T12:00:00.000Z', offset, 0],
+    ]);
+    expect(first.cron.getHistory().map(({ drift }) => drift)).toEqual([0, 0]);
+  });
+
+  it('should resolve the H tokens from the name of the cron job', () => {
+    const from = new Date('2024-01-01T00:00:00Z');
+    const next = (cron: string, hashKey: string) =>
+      new CronParser(cron, { hashKey, timezone: 'UTC' })
+        .take(3, from)
+        .map((d) => d.toISOString());
+
+    expect(next('H H * * *', 'a')).toEqual(next('H H * * *', 'a'));
+    expect(next('H H * * *', 'a')).not.toEqual(next('H H * * *', 'b'));
+    next('H(0-29) H(9-17) * * *', 'a').forEach((date) => {
+      expect(new Date(date).getUTCMinutes()).toBeLessThan(30);
+      expect(new Date(date).getUTCHours()).toBeGreaterThanOrEqual(9);
+    });
+    const [minute] = next('H/15 * * * *', 'a').map((date) =>
+      new Date(date).getUTCMinutes(),
+    );
+    expect(minute).toBeLessThan(15);
+    expect(next('H/15 * * * *', 'a')[1]).toBe(
+      new Date(from.getTime() + (minute + 15) * 60_000).toISOString(),
+    );
+    const cron = Cron.create({
+      name: 'a',
+      cron: 'H H * * *',
+      callback: jest.fn(),
+      timezone: 'UTC',
+    });
+    expect(cron.take(1, from)[0].toISOString()).toBe(next('H H * * *', 'a')[0]);
+    expect(Cron.validate('H(5) * * * *').errors[0].message).toBe(
+      'Invalid hash "H(5)" in the minute field',
+    );
+  });
+});
+
+describe('Run context', () => {
+  it('should pass the context of the run to the callback and onTick', async () => {
+    const clock = new VirtualClock(new Date('2024-01-01T10:00:00Z'));
+    const callback = jest.fn();
+    const onTick = jest.fn();
+    const cron = Cron.create({
+      name: 'test',
+      cron: '0 * * * * *',
+      callback,
+      onTick,
+      timezone: 'UTC',
+      clock,
+    });
+    cron.start();
+    clock.jumpTo(new Date('2024-01-01T10:01:00.250Z'));
+    await clock.runAllDue();
+    cron.destroy();
+
+    const [[context]] = callback.mock.calls;
+    expect(context).toMatchObject({
+      name: 'test',
+      scheduledAt: new Date('2024-01-01T10:01:00Z'),
+      firedAt: new Date('2024-01-01T10:01:00.250Z'),
+      drift: 250,
+      attempt: 1,
+    });
+    expect(typeof context.runId).toBe('string');
+    expect(context.signal.aborted).toBeFalsy();
+    expect(onTick.mock.calls).toEqual([[context]]);
+  });
+
+  it('should abort the signal of the runs that time out', async () => {
+    const clock = new VirtualClock(0);
+    const onError = jest.fn();
+    const signals: AbortSignal[] = [];
+    const cron = Cron.create({
+      name: 'test',
+      cron: '@daily',
+      callback: ({ signal }) => {
+        signals.push(signal);
+        return new Promise<void>(() => {});
+      },
+      timeout: 1000,
+      retry: { attempts: 2, delay: 0 },
+      onError,
+      clock,
+    });
+    cron.callback();
+    await clock.advanceBy(999);
+    expect(signals[0].aborted).toBeFalsy();
+    await clock.advanceBy(2000);
+
+    expect(signals).toHaveLength(2);
+    expect(signals.every((signal) => signal.aborted)).toBeTruthy();
+    expect(cron.getHistory().map(({ outcome }) => outcome)).toEqual([
+      'timeout',
+      'timeout',
+    ]);
+    expect(cron.getMetrics()).toMatchObject({ runs: 1, failures: 1 });
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(CronTimeoutError);
+    expect(cron.isExecuting()).toBeFalsy();
+  });
+
+  it('should abort the signal of the runs cancelled by a newer run', async () => {
+    const clock = new VirtualClock(new Date('2024-01-01T10:00:30Z'));
+    const signals: AbortSignal[] = [];
+    const cron = Cron.create({
+      name: 'test',
+      cron: '0 * * * * *',
+      callback: ({ signal }) => {
+        signals.push(signal);
+        return new Promise<void>(() => {});
+      },
+      timezone: 'UTC',
+      overlap: 'cancelPrevious',
+      clock,
+    });
+    cron.start();
+    await clock.advanceTo(new Date('2024-01-01T10:02:30Z'));
+    cron.destroy();
+
+    expect(signals.map((signal) => signal.aborted)).toEqual([true, false]);
+    expect(cron.getHistory().map(({ outcome }) => outcome)).toEqual([
+      'cancelled',
+    ]);
+    expect(cron.getMetrics()).toMatchObject({
+      runs: 0,
+      failures: 0,
+      averageDuration: 0,
+    });
+  });
+});
+
+describe('Cron errors', () => {
+  it('should retry failed runs before reporting them', async () => {
+    const error = new Error('failed');
+    const onError = jest.fn();
+    const flaky = jest
+      .fn()
+      .mockImplementationOnce(() => Promise.reject(error))
+      .mockImplementationOnce(() => Promise.reject(error));
+    const failing = jest.fn(() => {
+      throw error;
+    });
+    const retry = { attempts: 3, backoff: 'exponential', delay: 5 } as const;
+
+    const cron = Cron.create({
+      name: 'flaky',
+      cron: '@daily',
+      callback: flaky,
+      onError,
+      retry,
+    });
+    await cron.callback();
+    expect(flaky).toHaveBeenCalledTimes(3);
+    expect(onError).not.toHaveBeenCalled();
+    // the attempts are only kept in the history
+    expect(cron.getHistory()).toHaveLength(3);
+    expect(cron.getMetrics()).toMatchObject({
+      runs: 1,
+      failures: 0,
+      lastFailure: null,
+    });
+
+    await Cron.create({
+      name: 'failing',
+      cron: '@daily',
+      callback: failing,
+      onError,
+      retry,
+    }).callback();
+    expect(failing).toHaveBeenCalledTimes(3);
+    expect(onError.mock.calls).toEqual([
+      [
+        error,
+        {
+          name: 'failing',
+          attempt: 3,
+        },
+      ],
+    ]);
+  });
+
+  it('should not retry errors that are not retryable', async () => {
+    const onError = jest.fn();
+    const callback = jest.fn(() => {
+      throw new TypeError('bug');
+    });
+    await Cron.create({
+      name: 'test',
+      cron: '@daily',
+      callback,
+      onError,
+      retry: {
+        attempts: 3,
+        delay: 5,
+        retryable: (error) => !(error instanceof TypeError),
+      },
+    }).callback();
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry when the retryable predicate throws', async () => {
+    const clock = new VirtualClock(new Date('2024-01-01T10:00:00Z'));
+    const onError = jest.fn();
+    const callback = jest.fn(() => {
+      throw new Error('failed');
+    });
+    const cron = Cron.create({
+      name: 'test',
+      cron: '* * * * * *',
+      callback,
+      onError,
+      overlap: 'skip',
+      retry: {
+        attempts: 3,
+        retryable: () => {
+          throw new Error('broken predicate');
+        },
+      },
+      start: true,
+      clock,
+    });
+    await clock.advanceBy(2000);
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(cron.getStatus()).toBe('errored');
+    cron.destroy();
+  });
+
+  it('should report errors to the default error handler of the baker', async () => {
+    const onError = jest.fn();
+    const error = new Error('failed');
+    const baker = Baker.create({ onError, storage: new MemoryStorage() });
+    const cron = baker.add({
+      name: 'test',
+      cron: '@daily',
+      callback: () => {
+        throw error;
+      },
+    });
+    await cron.callback();
+    expect(onError.mock.calls).toEqual([[error, { name: 'test', attempt: 1 }]]);
+    baker.destroyAll();
+  });
+});
+
+describe('Events', () => {
+  it('should emit the lifecycle events of the cron jobs on the baker', async () => {
+    const baker = Baker.create();
+    const events: string[] = [];
+    (
+      [
+        'job:added',
+        'job:removed',
+        'job:started',
+        'job:stopped',
+        'run:start',
+        'run:success',
+        'run:error',
+      ] as const
+    ).forEach((event) =>
+      baker.on(event, ({ name }) => events.push(`${event} ${name}`)),
+    );
+    const errors = jest.fn();
+    baker.once('run:error', errors);
+
+    const cron = baker.add({
+      name: 'test',
+      cron: '@daily',
+      callback: () => {
+        throw new Error('failed');
+      },
+    });
+    baker.bake('test');
+    await cron.callback();
+    await cron.callback();
+    baker.remove('test');
+
+    expect(events).toEqual([
+      'job:added test',
+      'job:started test',
+      'run:start test',
+      'run:error test',
+      'run:start test',
+      'run:error test',
+      'job:stopped test',
+      'job:removed test',
+    ]);
+    expect(errors).toHaveBeenCalledTimes(1);
+    expect(errors.mock.calls[0][0]).toMatchObject({
+      name: 'test',
+      outcome: 'error',
+      attempt: 1,
+    });
+  });
+
+  it('should forward the events of the cron jobs started when added', async () => {
+    const clock = new VirtualClock(new Date('2024-01-01T10:00:00Z'));
+    const baker = Baker.create({ clock });
+    const events: string[] = [];
+    (['job:added', 'job:started', 'job:completed'] as const).forEach((event) =>
+      baker.on(event, ({ name }) => events.push(`${event} ${name}`)),
+    );
+
+    baker.add({
+      name: 'started',
+      cron: '@daily',
+      callback: jest.fn(),
+      start: true,
+    });
+    baker.once({ name: 'once', delay: 1000, callback: jest.fn() });
+    await clock.advanceBy(1000);
+    baker.destroyAll();
+
+    expect(events).toEqual([
+      'job:added started',
+      'job:started started',
+      'job:added once',
+      'job:started once',
+      'job:completed once',
+    ]);
+  });
+
+  it('should unregister event handlers', async () => {
+    const cron = Cron.create({
+      name: 'test',
+      cron: '@daily',
+      callback: jest.fn(),
+    });
+    const handler = jest.fn();
+    cron.on('run:success', handler);
+    await cron.callback();
+    cron.off('run:success', handler);
+    await cron.callback();
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('VirtualClock', () => {
+  it('should fire the cron jobs at their exact times', async () => {
+    const clock = new VirtualClock(new Date('2024-01-01T10:00:00Z'));
+    const baker = Baker.create({ clock });
+    const callback = jest.fn();
+    baker.add({
+      name: 'test',
+      cron: '0 */15 * * * *',
+      callback,
+      timezone: 'UTC',
+      start: true,
+    });
+
+    await clock.advanceTo(new Date('2024-01-01T11:00:00Z'));
+    expect(callback).toHaveBeenCalledTimes(4);
+    expect(
+      baker.getHistory('test').map(({ startedAt }) => startedAt.toISOString()),
+    ).toEqual([
+      '2024-01-01T11:00:00.000Z',
+      '2024-01-01T10:45:00.000Z',
+      '2024-01-01T10:30:00.000Z',
+      '2024-01-01T10:15:00.000Z',
+    ]);
+    expect(baker.nextExecution('test')).toEqual(
+      new Date('2024-01-01T11:15:00Z'),
+    );
+    expect(baker.remaining('test')).toBe(15 * 60 * 1000);
+    baker.destroyAll();
+  });
+
+  it('should drive all the cron jobs of a baker from a single timer', async () => {
+    const clock = new VirtualClock(new Date('2024-01-01T10:00:00Z'));
+    const { setTimeout, clearTimeout } = clock;
+    const pending = new Set<unknown>();
+    let maxPending = 0;
+    clock.setTimeout = (callback, ms) => {
+      const handle = setTimeout(() => {
+        pending.delete(handle);
+        callback();
+      }, ms);
+      pending.add(handle);
+      maxPending = Math.max(maxPending, pending.size);
+      return handle;
+    };
+    clock.clearTimeout = (handle) => {
+      pending.delete(handle);
+      clearTimeout(handle);
+    };
+    const baker = Baker.create({ clock });
+    const calls: string[] = [];
+    ['0 0 * * * *', '0 */20 * * * *', '30 */30 * * * *'].forEach((cron) =>
+      baker.add({
+        name: cron,
+        cron,
+        callback: () => calls.push(`${cron} ${clock.now()}`),
+        timezone: 'UTC',
+        start: true,
+      }),
+    );
+    baker.add({ name: 'removed', cron: '@every_second', callback: jest.fn() });
+    baker.bake('removed');
+    baker.remove('removed');
+
+    await clock.advanceTo(new Date('2024-01-01T11:00:00Z'));
+    const at = (time: string) => new Date(`2024-01-01T${time}Z`).getTime();
+    expect(calls).toEqual([
+      `30 */30 * * * * ${at('10:00:30')}`,
+      `0 */20 * * * * ${at('10:20:00')}`,
+      `30 */30 * * * * ${at('10:30:30')}`,
+      `0 */20 * * * * ${at('10:40:00')}`,
+      `0 0 * * * * ${at('11:00:00')}`,
+      `0 */20 * * * * ${at('11:00:00')}`,
+    ]);
+    expect(maxPending).toBe(1);
+    baker.destroyAll();
+  });
+
+  it('should fire sub-second cron jobs at their exact times', async () => {
+    const clock = new VirtualClock(new Date('2024-01-01T10:00:00.000Z'));
+    const cron = Cron.create({
+      name: 'test',
+      cron: '@every_250_milliseconds',
+      callback: jest.fn(),
+      clock,
+      start: true,
+    });
+    await clock.advanceBy(1000);
+    expect(
+      cron
+        .getHistory()
+        .map(({ startedAt, drift }) => [startedAt.getTime() % 1000, drift]),
+    ).toEqual([
+      [0, 0],
+      [750, 0],
+      [500, 0],
+      [250, 0],
+    ]);
+    cron.destroy();
+  });
+
+  it('should wait for the retries on the clock', async () => {
+    const clock = new VirtualClock(0);
+    const cron = Cron.create({
+      name: 'test',
+      cron: '@daily',
+      callback: () => {
+        throw new Error('failed');
+      },
+      retry: { attempts: 3, backoff: 'exponential', delay: 1000 },
+      clock,
+    });
+    cron.callback();
+    await clock.runAllDue();
+    expect(cron.getHistory()).toHaveLength(1);
+    await clock.advanceBy(999);
+    expect(cron.getHistory()).toHaveLength(1);
+    await clock.advanceBy(3000);
+    expect(
+      cron.getHistory().map(({ startedAt }) => startedAt.getTime()),
+    ).toEqual([3000, 1000, 0]);
+  });
 });
 
 describe('Cron', () => {
@@ -183,8 +1839,13 @@ describe('Cron', () => {
   });
 
   it('should get the status of the cron job', () => {
-    const status = cron.getStatus();
-    expect(status).toBeDefined();
+    expect(cron.getStatus()).toBe('idle');
+    cron.start();
+    expect(cron.getStatus()).toBe('scheduled');
+    cron.pause();
+    expect(cron.getStatus()).toBe('paused');
+    cron.destroy();
+    expect(cron.getStatus()).toBe('destroyed');
   });
 
   it('should check if the cron job is running', () => {
@@ -192,9 +1853,41 @@ describe('Cron', () => {
     expect(isRunning).toBeFalsy();
   });
 
-  it('should get the date of the last execution of the cron job', () => {
-    const lastExecution = cron.lastExecution();
-    expect(lastExecution).toBeInstanceOf(Date);
+  it('should get the date of the last execution of the cron job', async () => {
+    expect(cron.lastExecution()).toBeNull();
+    await cron.callback();
+    expect(cron.lastExecution()).toBeInstanceOf(Date);
+  });
+
+  it('should keep the history and the metrics of the executions', async () => {
+    const error = new Error('failed');
+    const callback = jest.fn().mockImplementationOnce(() => {
+      throw error;
+    });
+    const job = Cron.create({
+      name: 'test',
+      cron: '@daily',
+      callback,
+      retry: { attempts: 2, delay: 1 },
+      historySize: 2,
+    });
+    await job.callback();
+    await job.callback();
+
+    const history = job.getHistory();
+    expect(history).toHaveLength(2);
+    expect(history.map(({ outcome, attempt }) => [outcome, attempt])).toEqual([
+      ['success', 1],
+      ['success', 2],
+    ]);
+    expect(history[0].startedAt).toBeInstanceOf(Date);
+    expect(history[0].duration).toBeGreaterThanOrEqual(0);
+    const metrics = job.getMetrics();
+    expect(metrics.runs).toBe(2);
+    expect(metrics.failures).toBe(0);
+    expect(metrics.lastSuccess).toEqual(history[0].startedAt);
+    expect(metrics.lastFailure).toBeNull();
+    expect(metrics.p95Duration).toBeGreaterThanOrEqual(metrics.averageDuration);
   });
 
   it('should get the date of the next execution of the cron job', () => {
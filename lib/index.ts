@@ -1,25 +1,82 @@
 import Cron from "@/lib/cron";
 import Baker from "@/lib/baker";
 import CronParser from "@/lib/parser";
+import { CronParseError, CronTimeoutError, CronStateError } from "@/lib/errors";
+import {
+  type StorageOptions,
+  MemoryStorage,
+  FileStorage,
+  SqliteStorage,
+} from "@/lib/storage";
+import { VirtualClock } from "@/lib/clock";
 
 export {
   type CronOptions,
   type CronTime,
+  type CronInterval,
+  type CronFormat,
+  type CronField,
+  type CronValidationError,
+  type CronValidationResult,
+  type Clock,
+  type CronParserOptions,
+  type CronDescriptionUnit,
+  type CronLocale,
+  type DescribeOptions,
+  type RepeatedTimes,
+  type MisfirePolicy,
+  type OverlapPolicy,
+  type ErrorContext,
+  type ErrorHandler,
+  type JitterOptions,
+  type RetryOptions,
+  type RunContext,
+  type ExecutionOutcome,
+  type ExecutionRecord,
+  type CronMetrics,
+  type SkipReason,
+  type CronEvents,
+  type CronEventName,
+  type CronEventHandler,
+  type OccurrenceOptions,
   type ICron,
   type IBaker,
   type IBakerOptions,
   type ICronParser,
+  type OneShotOptions,
   type Status,
+  type CronAction,
+  type JobState,
+  type RunRecord,
+  type IStorage,
   type AtHourStrType,
   type BetweenStrType,
   type CronExpression,
   type CronExpressionType,
+  type CronTypeError,
   type CronExprs,
   type EveryStrType,
+  type DurationStrType,
   type OnDayStrType,
+  type WeekStrType,
+  type PresetStrType,
+  type ComposedStrType,
   type day,
   type unit,
+  type durationUnit,
 } from "@/lib/types";
 
-export { Cron, Baker, CronParser };
+export {
+  type StorageOptions,
+  Cron,
+  Baker,
+  CronParser,
+  CronParseError,
+  CronTimeoutError,
+  CronStateError,
+  MemoryStorage,
+  FileStorage,
+  SqliteStorage,
+  VirtualClock,
+};
 export default Baker;
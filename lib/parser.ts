@@ -3,11 +3,202 @@ import {
   type BetweenStrType,
   type CronExpression,
   type CronExpressionType,
+  type CronField,
+  type CronFormat,
+  type CronInterval,
+  type CronParserOptions,
   type CronTime,
-  type EveryStrType,
+  type CronValidationError,
+  type CronValidationResult,
   type ICronParser,
   type OnDayStrType,
 } from "@/lib/types";
+import {
+  getGapEnd,
+  getTimezoneOffset,
+  isValidTimezone,
+  resolveZonedTime,
+  toZonedTime,
+} from "@/lib/timezone";
+import { CronParseError } from "@/lib/errors";
+import { systemClock } from "@/lib/clock";
+import { hashString } from "@/lib/utils";
+
+/**
+ * One day in milliseconds, the span searched around a date for offset changes.
+ */
+const DAY = 86_400_000;
+
+/**
+ * The names accepted in the month field.
+ */
+const MONTH_NAMES = new Map(
+  [
+    "JAN",
+    "FEB",
+    "MAR",
+    "APR",
+    "MAY",
+    "JUN",
+    "JUL",
+    "AUG",
+    "SEP",
+    "OCT",
+    "NOV",
+    "DEC",
+  ].map((name, index): [string, number] => [name, index + 1]),
+);
+
+/**
+ * The names accepted in the day of the week field.
+ */
+const DAY_NAMES = new Map(
+  ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"].map(
+    (name, index): [string, number] => [name, index],
+  ),
+);
+
+/**
+ * The range of values and the names accepted in each field.
+ */
+const FIELDS: Record<
+  CronField,
+  { min: number; max: number; names?: Map<string, number> }
+> = {
+  millisecond: { min: 0, max: 999 },
+  second: { min: 0, max: 59 },
+  minute: { min: 0, max: 59 },
+  hour: { min: 0, max: 23 },
+  dayOfMonth: { min: 1, max: 31 },
+  month: { min: 1, max: 12, names: MONTH_NAMES },
+  dayOfWeek: { min: 0, max: 6, names: DAY_NAMES },
+  year: { min: 1970, max: 2099 },
+};
+
+/**
+ * The range of values an `H` token picks from in the fields where it differs
+ * from the range of the field: days past the 28th would skip some months,
+ * and 7 is sunday again.
+ */
+const HASH_RANGES: Partial<Record<CronField, [number, number]>> = {
+  dayOfMonth: [1, 28],
+  dayOfWeek: [0, 6],
+};
+
+/**
+ * The number of fields of each cron expression format.
+ */
+const FIELD_COUNTS: Record<CronFormat, number> = {
+  unix: 5,
+  seconds: 6,
+  quartz: 7,
+  milliseconds: 7,
+};
+
+/**
+ * The average length of a month in milliseconds, used to estimate how many
+ * intervals fit in a span of time.
+ */
+const MONTH = 2_629_746_000;
+
+/**
+ * The interval of each unit of the `@every_<number>_<unit>` presets.
+ */
+const EVERY_UNITS: Record<string, CronInterval> = {
+  milliseconds: { months: 0, days: 0, milliseconds: 1 },
+  seconds: { months: 0, days: 0, milliseconds: 1000 },
+  minutes: { months: 0, days: 0, milliseconds: 60_000 },
+  hours: { months: 0, days: 0, milliseconds: 3_600_000 },
+  dayOfMonth: { months: 0, days: 1, milliseconds: 0 },
+  dayOfWeek: { months: 0, days: 1, milliseconds: 0 },
+  months: { months: 1, days: 0, milliseconds: 0 },
+};
+
+/**
+ * The interval of each unit of the compound durations, e.g. `1h30m`.
+ */
+const DURATION_UNITS: Record<string, CronInterval> = {
+  w: { months: 0, days: 7, milliseconds: 0 },
+  d: { months: 0, days: 1, milliseconds: 0 },
+  h: EVERY_UNITS.hours,
+  m: EVERY_UNITS.minutes,
+  s: EVERY_UNITS.seconds,
+  ms: EVERY_UNITS.milliseconds,
+};
+
+/**
+ * An ISO 8601 duration, e.g. `P1DT12H` or `PT1H30M`. Only the seconds can
+ * have a fraction.
+ */
+const ISO_DURATION =
+  /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?=\d)(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+
+/**
+ * The interval of each component of an ISO 8601 duration, in the order of
+ * the groups of `ISO_DURATION`.
+ */
+const ISO_UNITS: CronInterval[] = [
+  { months: 12, days: 0, milliseconds: 0 },
+  EVERY_UNITS.months,
+  DURATION_UNITS.w,
+  DURATION_UNITS.d,
+  EVERY_UNITS.hours,
+  EVERY_UNITS.minutes,
+  EVERY_UNITS.seconds,
+];
+
+/**
+ * The fields a custom preset can set.
+ */
+type PresetField = Exclude<CronField, "millisecond" | "year">;
+
+/**
+ * The values set by custom presets, by field.
+ */
+type PresetFields = Partial<Record<PresetField, string>>;
+
+/**
+ * The field stepped through by each unit of the `@every_<number>_<unit>`
+ * presets when combined with other presets.
+ */
+const STEP_FIELDS: Record<string, PresetField> = {
+  seconds: "second",
+  minutes: "minute",
+  hours: "hour",
+  dayOfMonth: "dayOfMonth",
+  months: "month",
+  dayOfWeek: "dayOfWeek",
+};
+
+/**
+ * How fine each field set by custom presets is, the days of the month and of
+ * the week being as fine.
+ */
+const PRESET_LEVELS: Record<PresetField, number> = {
+  second: 0,
+  minute: 1,
+  hour: 2,
+  dayOfMonth: 3,
+  dayOfWeek: 3,
+  month: 4,
+};
+
+/**
+ * The fields of the seconds format in order, with the first value of each.
+ */
+const PRESET_DEFAULTS: [PresetField, string][] = [
+  ["second", "0"],
+  ["minute", "0"],
+  ["hour", "0"],
+  ["dayOfMonth", "1"],
+  ["month", "1"],
+  ["dayOfWeek", "*"],
+];
+
+/**
+ * How many years ahead (or back) a matching time is searched for before giving up.
+ */
+const SEARCH_HORIZON_YEARS = 100;
 
 /**
  * A class that implements the `ICronParser` interface and provides methods to parse a cron expression
@@ -17,7 +208,14 @@ class CronParser<T extends string> implements ICronParser {
   /**
    * Creates a new instance of the `CronParser` class.
    */
-  constructor(private cron: CronExpressionType<T>) {}
+  constructor(
+    private cron: CronExpressionType<T>,
+    private options: CronParserOptions = {},
+  ) {
+    if (options.timezone && !isValidTimezone(options.timezone)) {
+      throw new Error(`Invalid time zone: ${options.timezone}`);
+    }
+  }
 
   /**
    * A map of cron expression aliases to their corresponding cron expressions.
@@ -25,73 +223,138 @@ class CronParser<T extends string> implements ICronParser {
   private readonly aliases: Map<CronExpression, string> = new Map([
     ["@every_second", "* * * * * *"],
     ["@every_minute", "0 * * * * *"],
-    ["@yearly", "0 0 1 1 * *"],
-    ["@annually", "0 0 1 1 * *"],
-    ["@monthly", "0 0 1 * * *"],
-    ["@weekly", "0 0 * * 0 *"],
-    ["@daily", "0 0 * * * *"],
-    ["@hourly", "0 * * * * *"],
+    ["@yearly", "0 0 0 1 1 *"],
+    ["@annually", "0 0 0 1 1 *"],
+    ["@monthly", "0 0 0 1 * *"],
+    ["@weekly", "0 0 0 * * 0"],
+    ["@daily", "0 0 0 * * *"],
+    ["@hourly", "0 0 * * * *"],
   ]);
 
   /**
-   * Parses a string in the format "@every_<value>_<unit>" and returns the corresponding cron expression.
+   * Parses a string in the format "@every_<value>_<unit>" or "@every_<duration>", with an ISO 8601
+   * or a compound duration, and returns the corresponding interval, or `null` if it is invalid.
+   */
+  private parseEveryStr(str: string): CronInterval | null {
+    const value = str.slice("@every_".length);
+    const parts: [number, CronInterval][] = [];
+    const iso = ISO_DURATION.exec(value);
+    if (/^\d+_\w+$/.test(value)) {
+      const [count, unit] = value.split("_");
+      if (!(unit in EVERY_UNITS)) {
+        return null;
+      }
+      parts.push([parseInt(count), EVERY_UNITS[unit]]);
+    } else if (iso) {
+      iso
+        .slice(1)
+        .forEach(
+          (count, i) => count && parts.push([parseFloat(count), ISO_UNITS[i]]),
+        );
+    } else if (/^(\d+(ms|w|d|h|m|s))+$/.test(value)) {
+      for (const [, count, unit] of value.matchAll(/(\d+)(ms|w|d|h|m|s)/g)) {
+        parts.push([parseInt(count), DURATION_UNITS[unit]]);
+      }
+    }
+    const interval = parts.reduce(
+      (sum, [count, unit]) => ({
+        months: sum.months + count * unit.months,
+        days: sum.days + count * unit.days,
+        milliseconds: sum.milliseconds + Math.round(count * unit.milliseconds),
+      }),
+      { months: 0, days: 0, milliseconds: 0 },
+    );
+    return interval.months || interval.days || interval.milliseconds
+      ? interval
+      : null;
+  }
+
+  /**
+   * Parses a string in the format "@every_<value>_<unit>", "@every_weekday" or "@every_weekend"
+   * combined with other presets and returns the fields it sets, or `null` if it is invalid.
    */
-  private parseEveryStr(str: EveryStrType): string {
-    const [, value, unit] = str.split("_");
-    switch (unit) {
-      case "seconds":
-        return `*/${value} * * * * *`;
-      case "minutes":
-        return `0 */${value} * * * *`;
-      case "hours":
-        return `0 0 */${value} * * *`;
-      case "dayOfMonth":
-        return `0 0 0 */${value} * *`;
-      case "months":
-        return `0 0 0 0 */${value} *`;
-      case "dayOfWeek":
-        return `0 0 0 0 0 */${value}`;
-      default:
-        return "* * * * * *";
+  private parseEveryPart(str: string): PresetFields | null {
+    const value = str.slice("@every_".length);
+    if (value === "weekday") {
+      return { dayOfWeek: "1-5" };
+    }
+    if (value === "weekend") {
+      return { dayOfWeek: "0,6" };
     }
+    if (value === "second" || value === "minute") {
+      return { [value]: "*" };
+    }
+    const [count, unit] = value.split("_");
+    // combined with other presets, the steps go through a field like "*/15"
+    return /^\d+$/.test(count) && unit in STEP_FIELDS
+      ? { [STEP_FIELDS[unit]]: `*/${count}` }
+      : null;
   }
 
   /**
-   * Parses a string in the format "@at_<time>" and returns the corresponding cron expression.
+   * Parses a string in the format "@at_<time>" and returns the fields it sets.
    */
-  private parseAtHourStr(str: AtHourStrType): string {
+  private parseAtHourStr(str: AtHourStrType): PresetFields | null {
     const [, time] = str.split("_");
+    if (!/^\d+:\d+$/.test(time)) {
+      return null;
+    }
     const [hour, minute] = time.split(":");
-    return `0 ${minute} ${hour} * * *`;
+    return { hour, minute };
   }
 
   /**
-   * Parses a string in the format "@on_<day>_<unit>" and returns the corresponding cron expression.
+   * Parses a string in the format "@on_<day>,<day>,..." and returns the fields it sets.
    */
-  private parseOnDayStr(str: OnDayStrType): string {
-    const [, day, _unit] = str.split("_");
-    const days = new Map([
-      ["sunday", 1],
-      ["monday", 2],
-      ["tuesday", 3],
-      ["wednesday", 4],
-      ["thursday", 5],
-      ["friday", 6],
-      ["saturday", 7],
-    ]);
-    return `0 0 0 * * ${days.get(day)}`;
+  private parseOnDayStr(str: OnDayStrType): PresetFields | null {
+    const days = str.slice("@on_".length).split(",");
+    const names = [
+      "sunday",
+      "monday",
+      "tuesday",
+      "wednesday",
+      "thursday",
+      "friday",
+      "saturday",
+    ];
+    return days.every((day) => names.includes(day))
+      ? { dayOfWeek: days.map((day) => names.indexOf(day)).join(",") }
+      : null;
   }
 
   /**
-   * Parses a string in the format "@between_<start>_<end>" and returns the corresponding cron expression.
+   * Parses a string in the format "@between_<start>_<end>" and returns the fields it sets.
    */
-  private parseBetweenStr(str: BetweenStrType): string {
+  private parseBetweenStr(str: BetweenStrType): PresetFields | null {
     const [, start, end] = str.split("_");
-    return `0 0 ${start}-${end} * * *`;
+    if (end === undefined) {
+      return null;
+    }
+    return { hour: `${start}-${end}` };
   }
 
   /**
-   * Parses the input string and returns the corresponding cron expression.
+   * Parses one of the presets of a combination and returns the fields it sets.
+   */
+  private parsePresetPart(str: string): PresetFields | null {
+    if (str.startsWith("@every_")) {
+      return this.parseEveryPart(str);
+    }
+    if (str.startsWith("@at_")) {
+      return this.parseAtHourStr(str as AtHourStrType);
+    }
+    if (str.startsWith("@on_")) {
+      return this.parseOnDayStr(str as OnDayStrType);
+    }
+    if (str.startsWith("@between_")) {
+      return this.parseBetweenStr(str as BetweenStrType);
+    }
+    return null;
+  }
+
+  /**
+   * Parses the input string and returns the corresponding cron expression. The custom presets can be
+   * combined, e.g. "@on_monday@at_09:30", as long as they don't set the same field.
    */
   private parseStr(str: string): CronExpressionType<T> {
     if (this.aliases.has(str as CronExpression)) {
@@ -100,166 +363,969 @@ class CronParser<T extends string> implements ICronParser {
         ("" as CronExpressionType<T>)
       );
     }
-    if (str.includes("@every_")) {
-      return this.parseEveryStr(str as EveryStrType) as CronExpressionType<T>;
-    }
-    if (str.includes("@at_")) {
-      return this.parseAtHourStr(str as AtHourStrType) as CronExpressionType<T>;
-    }
-    if (str.includes("@on_")) {
-      return this.parseOnDayStr(str as OnDayStrType) as CronExpressionType<T>;
-    }
-    if (str.includes("@between_")) {
-      return this.parseBetweenStr(
-        str as BetweenStrType,
-      ) as CronExpressionType<T>;
+    const fields: PresetFields = {};
+    for (const part of str.split(/(?=@)/)) {
+      const set = this.parsePresetPart(part);
+      if (!set || Object.keys(set).some((field) => field in fields)) {
+        return str as CronExpressionType<T>;
+      }
+      Object.assign(fields, set);
     }
-    return str as CronExpressionType<T>;
+    // the fields finer than the ones set start at their first value, the coarser ones match any value
+    const finest = Math.min(
+      ...Object.keys(fields).map(
+        (field) => PRESET_LEVELS[field as PresetField],
+      ),
+    );
+    return PRESET_DEFAULTS.map(
+      ([field, first]) =>
+        fields[field] ?? (PRESET_LEVELS[field] < finest ? first : "*"),
+    ).join(" ") as CronExpressionType<T>;
   }
 
   /**
    * Parses the cron expression and returns a `CronTime` object representing the parsed cron expression.
+   * Throws a `CronParseError` describing every invalid part of the expression if it is invalid.
    * @returns A `CronTime` object representing the parsed cron expression.
    */
   parse(): CronTime {
-    this.cron = this.parseStr(this.cron);
-    const [second, minute, hour, dayOfMonth, month, dayOfWeek] =
-      this.cron.split(" ");
-    return {
-      second: this.parseCronTime(second, 0, 59),
-      minute: this.parseCronTime(minute, 0, 59),
-      hour: this.parseCronTime(hour, 0, 23),
-      dayOfMonth: this.parseCronTime(dayOfMonth, 1, 31),
-      month: this.parseCronTime(month, 1, 12),
-      dayOfWeek: this.parseCronTime(dayOfWeek, 0, 6),
-    };
+    const errors: CronValidationError[] = [];
+    const cronTime = this.parseFields(errors);
+    if (errors.length) {
+      throw new CronParseError(this.cron, errors);
+    }
+    return cronTime;
   }
 
   /**
-   * Gets the next execution time based on the current time.
-   * @returns A `Date` object representing the next execution time.
+   * Validates the cron expression without throwing.
+   * @returns The validation result with a diagnostic for each invalid part of the expression.
    */
-  getNext(): Date {
-    const cronTime = this.parse();
-    const now = new Date();
-    let next = new Date(
-      now.getFullYear(),
-      now.getMonth(),
-      now.getDate(),
-      now.getHours(),
-      now.getMinutes(),
-      now.getSeconds(),
-    );
-    next.setMilliseconds(0);
-    next.setSeconds(next.getSeconds() + 1);
+  validate(): CronValidationResult {
+    const errors: CronValidationError[] = [];
+    this.parseFields(errors);
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Parses every field of the cron expression, collecting the diagnostics of the invalid parts.
+   */
+  private parseFields(errors: CronValidationError[]): CronTime {
+    const preset = this.cron.startsWith("@");
+    // @every presets run at fixed intervals rather than matching fields
+    const interval =
+      this.cron.startsWith("@every_") &&
+      !this.aliases.has(this.cron as CronExpression)
+        ? this.parseEveryStr(this.cron)
+        : null;
+    if (interval) {
+      return { interval };
+    }
+    const expression = this.parseStr(this.cron);
+    if (preset && expression === this.cron) {
+      errors.push({
+        field: "expression",
+        token: this.cron,
+        position: 0,
+        message: `Unknown preset "${this.cron}"`,
+      });
+      return {};
+    }
 
-    while (!this.checkCronTime(cronTime, next)) {
-      next.setSeconds(next.getSeconds() + 1);
+    const tokens = [...expression.matchAll(/\S+/g)].map(
+      (match): [string, number] => [match[0], preset ? 0 : (match.index ?? 0)],
+    );
+    // presets expand to the seconds format
+    const format = preset
+      ? "seconds"
+      : (this.options.format ?? this.detectFormat(tokens.length));
+    if (!format || tokens.length !== FIELD_COUNTS[format]) {
+      errors.push({
+        field: "expression",
+        token: this.cron,
+        position: 0,
+        message: format
+          ? `Expected ${FIELD_COUNTS[format]} fields for the ${format} format but got ${tokens.length}`
+          : `Expected 5, 6 or 7 fields but got ${tokens.length}`,
+      });
+      return {};
     }
 
-    return next;
+    const fieldErrors: CronValidationError[] = [];
+    const [second, minute, hour, dayOfMonth, month, dayOfWeek, year] =
+      format === "unix"
+        ? [undefined, ...tokens]
+        : format === "milliseconds"
+          ? tokens.slice(1)
+          : tokens;
+    const cronTime: CronTime = {
+      ...(format === "milliseconds" && {
+        millisecond: this.parseCronTime("millisecond", tokens[0], fieldErrors),
+      }),
+      second: second ? this.parseCronTime("second", second, fieldErrors) : [0],
+      minute: this.parseCronTime("minute", minute!, fieldErrors),
+      hour: this.parseCronTime("hour", hour!, fieldErrors),
+      ...this.parseDayOfMonth(dayOfMonth!, fieldErrors),
+      month: this.parseCronTime("month", month!, fieldErrors),
+      ...this.parseDayOfWeek(dayOfWeek!, fieldErrors),
+    };
+    if (year) {
+      cronTime.year = this.parseCronTime("year", year, fieldErrors);
+    }
+    // like Vixie cron, restricting both days matches either of them
+    if (![dayOfMonth![0], dayOfWeek![0]].some((day) => /^[*?]/.test(day))) {
+      cronTime.eitherDay = true;
+    }
+    // errors in presets are reported at the start of the preset
+    errors.push(
+      ...fieldErrors.map((error) =>
+        preset ? { ...error, position: 0 } : error,
+      ),
+    );
+    return cronTime;
   }
 
   /**
-   * Gets the previous execution time based on the current time.
-   * @returns A `Date` object representing the previous execution time.
+   * Detects the format of a cron expression from its number of fields.
    */
-  getPrevious(): Date {
-    const cronTime = this.parse();
-    const now = new Date();
-    let previous = new Date(
-      now.getFullYear(),
-      now.getMonth(),
-      now.getDate(),
-      now.getHours(),
-      now.getMinutes(),
-      now.getSeconds(),
+  private detectFormat(count: number): CronFormat | undefined {
+    return (Object.keys(FIELD_COUNTS) as CronFormat[]).find(
+      (key) => FIELD_COUNTS[key] === count,
     );
-    previous.setMilliseconds(0);
-    previous.setSeconds(previous.getSeconds() - 1);
+  }
+
+  /**
+   * Gets the current time from the clock of the parser.
+   */
+  private now(): Date {
+    return new Date((this.options.clock ?? systemClock).now());
+  }
 
-    while (!this.checkCronTime(cronTime, previous)) {
-      previous.setSeconds(previous.getSeconds() - 1);
+  /**
+   * Gets the next execution time after the given date, the current time by default.
+   * @returns A `Date` object representing the next execution time.
+   */
+  getNext(from: Date = this.now()): Date {
+    const next = this.findNext(this.parse(), from);
+    if (!next) {
+      throw new Error(
+        `No future occurrence of "${this.cron}" within ${SEARCH_HORIZON_YEARS} years`,
+      );
     }
+    return next;
+  }
 
+  /**
+   * Gets the previous execution time before the given date, the current time by default.
+   * @returns A `Date` object representing the previous execution time.
+   */
+  getPrevious(from: Date = this.now()): Date {
+    const previous = this.findPrevious(this.parse(), from);
+    if (!previous) {
+      throw new Error(
+        `No past occurrence of "${this.cron}" within ${SEARCH_HORIZON_YEARS} years`,
+      );
+    }
     return previous;
   }
 
   /**
-   * Parses a cron time string and returns an array of numbers representing the valid values for that field.
+   * Gets the next `n` execution times after the given date, the current time by default.
+   * @returns An array of up to `n` dates in ascending order.
    */
-  private parseCronTime(cronTime: string, min: number, max: number): number[] {
-    const result: number[] = [];
-    switch (true) {
-      case cronTime === "*":
-        for (let i = min; i <= max; i++) {
-          result.push(i);
-        }
+  take(n: number, from: Date = this.now()): Date[] {
+    return this.collect(this.iterate(from, 1), n);
+  }
+
+  /**
+   * Gets the previous `n` execution times before the given date, the current time by default.
+   * @returns An array of up to `n` dates in descending order.
+   */
+  takePrevious(n: number, from: Date = this.now()): Date[] {
+    return this.collect(this.iterate(from, -1), n);
+  }
+
+  /**
+   * Gets all the execution times between two dates, both included.
+   * @returns An array of dates in ascending order.
+   */
+  between(start: Date, end: Date): Date[] {
+    const result: Date[] = [];
+    for (const date of this.iterate(new Date(start.getTime() - 1), 1)) {
+      if (date > end) {
         break;
-      case cronTime.includes("-"): {
-        const [start, end] = cronTime.split("-");
-        const step = this.getStep(cronTime);
-        for (let i = parseInt(start); i <= parseInt(end); i += step) {
-          result.push(i);
-        }
+      }
+      result.push(date);
+    }
+    return result;
+  }
+
+  /**
+   * Lazily iterates over the execution times after the given date, the current time by default.
+   * @returns An iterator of dates in ascending order.
+   */
+  occurrences(from: Date = this.now()): IterableIterator<Date> {
+    return this.iterate(from, 1);
+  }
+
+  /**
+   * Iterates over the execution times after (`direction` 1) or before (`direction` -1) a date,
+   * until there is none left within the search horizon.
+   */
+  private *iterate(from: Date, direction: 1 | -1): IterableIterator<Date> {
+    const cronTime = this.parse();
+    let date: Date | null = from;
+    while (
+      (date =
+        direction === 1
+          ? this.findNext(cronTime, date)
+          : this.findPrevious(cronTime, date))
+    ) {
+      yield date;
+    }
+  }
+
+  /**
+   * Collects up to `n` dates from an iterator.
+   */
+  private collect(iterator: IterableIterator<Date>, n: number): Date[] {
+    const result: Date[] = [];
+    while (result.length < n) {
+      const { value, done } = iterator.next();
+      if (done) {
         break;
       }
-      case cronTime.includes("/"): {
-        const [value, step] = cronTime.split("/");
-        const start = value === "*" ? min : parseInt(value);
-        for (let i = start; i <= max; i += parseInt(step)) {
-          result.push(i);
+      result.push(value);
+    }
+    return result;
+  }
+
+  /**
+   * Finds the first instant after `from` matching the cron time, or `null` if there is none
+   * within the search horizon.
+   */
+  private findNext(cronTime: CronTime, from: Date): Date | null {
+    if (cronTime.interval) {
+      return this.findInterval(cronTime.interval, from, 1);
+    }
+    const { timezone } = this.options;
+    // start from the earliest wall-clock time an instant after `from` can show
+    const start = new Date(
+      from.getTime() +
+        Math.min(
+          getTimezoneOffset(from, timezone),
+          getTimezoneOffset(new Date(from.getTime() + DAY), timezone),
+        ),
+    );
+    const horizon = new Date(start.getTime());
+    horizon.setUTCFullYear(horizon.getUTCFullYear() + SEARCH_HORIZON_YEARS);
+    let limit = horizon.getTime();
+    let best: Date | null = null;
+
+    let match = this.matchForward(cronTime, start, limit);
+    while (match) {
+      for (const instant of this.resolveWallTime(cronTime, match)) {
+        if (instant > from && (!best || instant < best)) {
+          best = instant;
+          // a later wall-clock time can only show an earlier instant around a fall back
+          limit =
+            best.getTime() +
+            Math.max(
+              getTimezoneOffset(new Date(best.getTime() - DAY), timezone),
+              getTimezoneOffset(best, timezone),
+            );
         }
-        break;
       }
-      case cronTime.includes(","): {
-        const times = cronTime.split(",");
-        for (let i = 0; i < times.length; i++) {
-          result.push(parseInt(times[i]));
+      match = this.matchForward(cronTime, new Date(match.getTime() + 1), limit);
+    }
+
+    return best;
+  }
+
+  /**
+   * Finds the last instant before `from` matching the cron time, or `null` if there is none
+   * within the search horizon.
+   */
+  private findPrevious(cronTime: CronTime, from: Date): Date | null {
+    if (cronTime.interval) {
+      return this.findInterval(cronTime.interval, from, -1);
+    }
+    const { timezone } = this.options;
+    // start from the latest wall-clock time an instant before `from` can show
+    const start = new Date(
+      from.getTime() +
+        Math.max(
+          getTimezoneOffset(from, timezone),
+          getTimezoneOffset(new Date(from.getTime() - DAY), timezone),
+        ),
+    );
+    const horizon = new Date(start.getTime());
+    horizon.setUTCFullYear(horizon.getUTCFullYear() - SEARCH_HORIZON_YEARS);
+    let limit = horizon.getTime();
+    let best: Date | null = null;
+
+    let match = this.matchBackward(cronTime, start, limit);
+    while (match) {
+      for (const instant of this.resolveWallTime(cronTime, match)) {
+        if (instant < from && (!best || instant > best)) {
+          best = instant;
+          // an earlier wall-clock time can only show a later instant around a fall back
+          limit =
+            best.getTime() +
+            Math.min(
+              getTimezoneOffset(best, timezone),
+              getTimezoneOffset(new Date(best.getTime() + DAY), timezone),
+            );
         }
-        break;
       }
-      default:
-        result.push(parseInt(cronTime));
-        break;
+      match = this.matchBackward(
+        cronTime,
+        new Date(match.getTime() - 1),
+        limit,
+      );
+    }
+
+    return best;
+  }
+
+  /**
+   * Finds the first run of an interval after (`direction` 1) or the last run before (`direction` -1)
+   * `from`, estimating how many intervals fit since the anchor before stepping to the exact one.
+   */
+  private findInterval(
+    interval: CronInterval,
+    from: Date,
+    direction: 1 | -1,
+  ): Date {
+    const anchor = this.options.anchor ?? this.getEpoch();
+    const length =
+      interval.months * MONTH + interval.days * DAY + interval.milliseconds;
+    const run = (k: number) => this.addInterval(anchor, interval, k);
+    let k = Math.floor((from.getTime() - anchor.getTime()) / length);
+    if (direction === 1) {
+      while (run(k) > from) {
+        k--;
+      }
+      while (run(k) <= from) {
+        k++;
+      }
+    } else {
+      while (run(k) < from) {
+        k++;
+      }
+      while (run(k) >= from) {
+        k--;
+      }
+    }
+    return run(k);
+  }
+
+  /**
+   * Gets the `k`th run of an interval counted from an anchor. The months and the days are added to
+   * the wall-clock time, falling on the last day of shorter months, and the milliseconds to the
+   * instant.
+   */
+  private addInterval(anchor: Date, interval: CronInterval, k: number): Date {
+    if (!interval.months && !interval.days) {
+      return new Date(anchor.getTime() + k * interval.milliseconds);
+    }
+    const { timezone } = this.options;
+    const wall = toZonedTime(anchor, timezone);
+    const day = wall.getUTCDate();
+    wall.setUTCDate(1);
+    wall.setUTCMonth(wall.getUTCMonth() + k * interval.months);
+    const last = new Date(
+      Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth() + 1, 0),
+    ).getUTCDate();
+    wall.setUTCDate(Math.min(day, last) + k * interval.days);
+    const [instant = getGapEnd(wall, timezone)] = resolveZonedTime(
+      wall,
+      timezone,
+    );
+    return new Date(instant.getTime() + k * interval.milliseconds);
+  }
+
+  /**
+   * Gets midnight on January 1st, 1970 in the time zone, the default anchor of the intervals.
+   */
+  private getEpoch(): Date {
+    return (
+      resolveZonedTime(new Date(0), this.options.timezone)[0] ?? new Date(0)
+    );
+  }
+
+  /**
+   * Finds the first wall-clock time (read through its UTC getters) at or after `start` matching
+   * the cron time. Jumps field by field, from the year down to the millisecond, to the next
+   * allowed value instead of testing every millisecond. Returns `null` once `limit` is passed.
+   */
+  private matchForward(
+    cronTime: CronTime,
+    start: Date,
+    limit: number,
+  ): Date | null {
+    const date = new Date(start.getTime());
+    while (date.getTime() <= limit) {
+      const year = this.findValue(cronTime.year, date.getUTCFullYear(), 1);
+      if (year === undefined) {
+        return null;
+      }
+      if (year !== date.getUTCFullYear()) {
+        date.setUTCFullYear(year, 0, 1);
+        date.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      const month = this.findValue(cronTime.month, date.getUTCMonth() + 1, 1);
+      if (month === undefined) {
+        date.setUTCFullYear(date.getUTCFullYear() + 1, 0, 1);
+        date.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (month !== date.getUTCMonth() + 1) {
+        date.setUTCMonth(month - 1, 1);
+        date.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.checkDay(cronTime, date)) {
+        date.setUTCDate(date.getUTCDate() + 1);
+        date.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      const hour = this.findValue(cronTime.hour, date.getUTCHours(), 1);
+      if (hour === undefined) {
+        date.setUTCDate(date.getUTCDate() + 1);
+        date.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (hour !== date.getUTCHours()) {
+        date.setUTCHours(hour, 0, 0, 0);
+      }
+      const minute = this.findValue(cronTime.minute, date.getUTCMinutes(), 1);
+      if (minute === undefined) {
+        date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+        continue;
+      }
+      if (minute !== date.getUTCMinutes()) {
+        date.setUTCMinutes(minute, 0, 0);
+      }
+      const second = this.findValue(cronTime.second, date.getUTCSeconds(), 1);
+      if (second === undefined) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+        continue;
+      }
+      if (second !== date.getUTCSeconds()) {
+        date.setUTCSeconds(second, 0);
+      }
+      const millisecond = this.findValue(
+        cronTime.millisecond ?? [0],
+        date.getUTCMilliseconds(),
+        1,
+      );
+      if (millisecond === undefined) {
+        date.setUTCSeconds(date.getUTCSeconds() + 1, 0);
+        continue;
+      }
+      date.setUTCMilliseconds(millisecond);
+      return date.getTime() <= limit ? date : null;
+    }
+    return null;
+  }
+
+  /**
+   * Finds the last wall-clock time (read through its UTC getters) at or before `start` matching
+   * the cron time, the mirror image of `matchForward`. Returns `null` once `limit` is passed.
+   */
+  private matchBackward(
+    cronTime: CronTime,
+    start: Date,
+    limit: number,
+  ): Date | null {
+    const date = new Date(start.getTime());
+    while (date.getTime() >= limit) {
+      const year = this.findValue(cronTime.year, date.getUTCFullYear(), -1);
+      if (year === undefined) {
+        return null;
+      }
+      if (year !== date.getUTCFullYear()) {
+        date.setUTCFullYear(year, 11, 31);
+        date.setUTCHours(23, 59, 59, 999);
+        continue;
+      }
+      const month = this.findValue(cronTime.month, date.getUTCMonth() + 1, -1);
+      if (month === undefined) {
+        date.setUTCFullYear(date.getUTCFullYear() - 1, 11, 31);
+        date.setUTCHours(23, 59, 59, 999);
+        continue;
+      }
+      if (month !== date.getUTCMonth() + 1) {
+        // day 0 of the following month is the last day of `month`
+        date.setUTCMonth(month, 0);
+        date.setUTCHours(23, 59, 59, 999);
+        continue;
+      }
+      if (!this.checkDay(cronTime, date)) {
+        date.setUTCDate(date.getUTCDate() - 1);
+        date.setUTCHours(23, 59, 59, 999);
+        continue;
+      }
+      const hour = this.findValue(cronTime.hour, date.getUTCHours(), -1);
+      if (hour === undefined) {
+        date.setUTCDate(date.getUTCDate() - 1);
+        date.setUTCHours(23, 59, 59, 999);
+        continue;
+      }
+      if (hour !== date.getUTCHours()) {
+        date.setUTCHours(hour, 59, 59, 999);
+      }
+      const minute = this.findValue(cronTime.minute, date.getUTCMinutes(), -1);
+      if (minute === undefined) {
+        date.setUTCHours(date.getUTCHours() - 1, 59, 59, 999);
+        continue;
+      }
+      if (minute !== date.getUTCMinutes()) {
+        date.setUTCMinutes(minute, 59, 999);
+      }
+      const second = this.findValue(cronTime.second, date.getUTCSeconds(), -1);
+      if (second === undefined) {
+        date.setUTCMinutes(date.getUTCMinutes() - 1, 59, 999);
+        continue;
+      }
+      if (second !== date.getUTCSeconds()) {
+        date.setUTCSeconds(second, 999);
+      }
+      const millisecond = this.findValue(
+        cronTime.millisecond ?? [0],
+        date.getUTCMilliseconds(),
+        -1,
+      );
+      if (millisecond === undefined) {
+        date.setUTCSeconds(date.getUTCSeconds() - 1, 999);
+        continue;
+      }
+      date.setUTCMilliseconds(millisecond);
+      return date.getTime() >= limit ? date : null;
+    }
+    return null;
+  }
+
+  /**
+   * Finds the closest allowed value of a field at or after (`direction` 1) or at or before
+   * (`direction` -1) the current value. A missing field allows every value.
+   */
+  private findValue(
+    values: number[] | undefined,
+    current: number,
+    direction: 1 | -1,
+  ): number | undefined {
+    if (!values) {
+      return current;
+    }
+    if (direction === 1) {
+      return values.find((value) => value >= current);
+    }
+    for (let i = values.length - 1; i >= 0; i--) {
+      if (values[i] <= current) {
+        return values[i];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolves a matching wall-clock time to the instants the job runs at. Jobs bound to specific
+   * hours run once right after the gap for times skipped when the clock springs forward, and once
+   * (or twice with `repeatedTimes: 'both'`) for times repeated when the clock falls back. Jobs
+   * running every hour follow the elapsed time instead: skipped times don't run and repeated
+   * times run twice.
+   */
+  private resolveWallTime(cronTime: CronTime, wall: Date): Date[] {
+    const instants = resolveZonedTime(wall, this.options.timezone);
+    const everyHour = !cronTime.hour || cronTime.hour.length >= 24;
+    if (everyHour) {
+      return instants;
+    }
+    if (instants.length === 0) {
+      return [getGapEnd(wall, this.options.timezone)];
+    }
+    if (this.options.repeatedTimes === "both") {
+      return instants;
+    }
+    return instants.slice(0, 1);
+  }
+
+  /**
+   * Parses a cron time string and returns a sorted array of numbers representing the valid values
+   * for that field. The string is a comma separated list whose items are a value, a range
+   * (`1-5`), a wildcard (`*`) or any of those followed by a step, e.g. `1-30/2` or `5/10`.
+   * Values can also be given by name when the field has names, e.g. `JAN` or `MON`.
+   */
+  private parseCronTime(
+    field: CronField,
+    [cronTime, position]: [string, number],
+    errors: CronValidationError[],
+  ): number[] {
+    const result: number[] = [];
+    for (const [item, offset] of this.splitItems(cronTime, position)) {
+      result.push(...this.parseItem(field, item, offset, errors));
+    }
+    return [...new Set(result)].sort((a, b) => a - b);
+  }
+
+  /**
+   * Splits a field into its comma separated items along with their positions in the expression.
+   */
+  private splitItems(field: string, position: number): [string, number][] {
+    const items: [string, number][] = [];
+    let offset = position;
+    for (const item of field.split(",")) {
+      items.push([item, offset]);
+      offset += item.length + 1;
+    }
+    return items;
+  }
+
+  /**
+   * Parses a single item of a field (a value, a range, a wildcard or a hash, optionally with a
+   * step) and returns the values it covers.
+   */
+  private parseItem(
+    field: CronField,
+    item: string,
+    position: number,
+    errors: CronValidationError[],
+  ): number[] {
+    const { min, max } = FIELDS[field];
+    const [range, step, ...rest] = item.split("/");
+    let increment = 1;
+    if (step !== undefined) {
+      if (rest.length || !/^\d+$/.test(step) || parseInt(step) === 0) {
+        errors.push({
+          field,
+          token: item,
+          position,
+          message: `Invalid step "${item.slice(range.length + 1)}" in the ${field} field`,
+        });
+        return [];
+      }
+      increment = parseInt(step);
+    }
+
+    let start = min;
+    let end = max;
+    if (range === "H" || range.startsWith("H(")) {
+      const span = this.parseHash(field, range, position, errors);
+      if (!span) {
+        return [];
+      }
+      // the hash picks a value of the range, or the first value of the steps
+      const [first, last] = span;
+      const count = Math.min(
+        last - first + 1,
+        step !== undefined ? increment : Infinity,
+      );
+      start =
+        first + (hashString(`${this.options.hashKey ?? ""}:${field}`) % count);
+      end = step !== undefined ? last : start;
+    } else if (range !== "*") {
+      const [from, to, ...extra] = range.split("-");
+      if (extra.length) {
+        errors.push({
+          field,
+          token: item,
+          position,
+          message: `Invalid range "${range}" in the ${field} field`,
+        });
+        return [];
+      }
+      const first = this.parseValue(field, from, position, errors);
+      // a single value with a step runs up to the end of the field, e.g. `5/10`
+      const last =
+        to !== undefined
+          ? this.parseValue(field, to, position + from.length + 1, errors)
+          : step !== undefined
+            ? max
+            : first;
+      if (first === undefined || last === undefined) {
+        return [];
+      }
+      if (first > last) {
+        errors.push({
+          field,
+          token: item,
+          position,
+          message: `Range start ${first} is greater than its end ${last} in the ${field} field`,
+        });
+        return [];
+      }
+      start = first;
+      end = last;
+    }
+
+    const result: number[] = [];
+    for (let i = start; i <= end; i += increment) {
+      result.push(i);
     }
     return result;
   }
 
   /**
-   * Gets the step value for a cron time string.
+   * Parses an `H` or `H(<start>-<end>)` token and returns the range of values it picks from.
    */
-  private getStep(cronTime: string): number {
-    const [, step] = cronTime.split("/");
-    const parsedStep = parseInt(step);
-    return isNaN(parsedStep) ? 1 : parsedStep;
+  private parseHash(
+    field: CronField,
+    range: string,
+    position: number,
+    errors: CronValidationError[],
+  ): [number, number] | undefined {
+    if (range === "H") {
+      return HASH_RANGES[field] ?? [FIELDS[field].min, FIELDS[field].max];
+    }
+    const bounds = /^H\((\w+)-(\w+)\)$/.exec(range);
+    if (!bounds) {
+      errors.push({
+        field,
+        token: range,
+        position,
+        message: `Invalid hash "${range}" in the ${field} field`,
+      });
+      return undefined;
+    }
+    const first = this.parseValue(field, bounds[1], position + 2, errors);
+    const last = this.parseValue(
+      field,
+      bounds[2],
+      position + bounds[1].length + 3,
+      errors,
+    );
+    if (first === undefined || last === undefined) {
+      return undefined;
+    }
+    if (first > last) {
+      errors.push({
+        field,
+        token: range,
+        position,
+        message: `Range start ${first} is greater than its end ${last} in the ${field} field`,
+      });
+      return undefined;
+    }
+    return [first, last];
   }
 
   /**
-   * Checks if the given date matches the cron time.
+   * Parses a single value of a field, either a number or one of the names of the field. Reports
+   * and returns `undefined` for values that are invalid or out of the range of the field.
    */
-  private checkCronTime(cronTime: CronTime, date: Date): boolean {
-    if (cronTime.second && !cronTime.second.includes(date.getSeconds())) {
-      return false;
+  private parseValue(
+    field: CronField,
+    value: string,
+    position: number,
+    errors: CronValidationError[],
+  ): number | undefined {
+    const { min, names } = FIELDS[field];
+    // 7 is accepted as another way to write sunday
+    const max = field === "dayOfWeek" ? 7 : FIELDS[field].max;
+    const number =
+      names?.get(value.toUpperCase()) ??
+      (/^\d+$/.test(value) ? parseInt(value) : undefined);
+    if (number === undefined) {
+      errors.push({
+        field,
+        token: value,
+        position,
+        message: `Invalid value "${value}" in the ${field} field`,
+      });
+      return undefined;
     }
-    if (cronTime.minute && !cronTime.minute.includes(date.getMinutes())) {
-      return false;
+    if (number < min || number > max) {
+      errors.push({
+        field,
+        token: value,
+        position,
+        message: `Value ${number} is out of the range ${min}-${max} of the ${field} field`,
+      });
+      return undefined;
     }
-    if (cronTime.hour && !cronTime.hour.includes(date.getHours())) {
-      return false;
+    return number;
+  }
+
+  /**
+   * Parses the day of the month field, which also accepts `?` (any day), `L` (last day of the
+   * month), `LW` (last weekday of the month) and `<day>W` (weekday nearest to the day).
+   */
+  private parseDayOfMonth(
+    [field, position]: [string, number],
+    errors: CronValidationError[],
+  ): CronTime {
+    const cronTime: CronTime = { dayOfMonth: [] };
+    for (const [item, offset] of this.splitItems(field, position)) {
+      // special characters are case-insensitive, errors quote the item as written
+      const special = item.toUpperCase();
+      if (special === "L") {
+        cronTime.lastDayOfMonth = true;
+      } else if (special === "LW") {
+        cronTime.lastWeekdayOfMonth = true;
+      } else if (special.endsWith("W")) {
+        const day = this.parseValue(
+          "dayOfMonth",
+          item.slice(0, -1),
+          offset,
+          errors,
+        );
+        if (day !== undefined) {
+          cronTime.nearestWeekday = [...(cronTime.nearestWeekday || []), day];
+        }
+      } else {
+        cronTime.dayOfMonth!.push(
+          ...this.parseItem(
+            "dayOfMonth",
+            item === "?" ? "*" : item,
+            offset,
+            errors,
+          ),
+        );
+      }
+    }
+    cronTime.dayOfMonth = [...new Set(cronTime.dayOfMonth)].sort(
+      (a, b) => a - b,
+    );
+    return cronTime;
+  }
+
+  /**
+   * Parses the day of the week field, which also accepts `?` (any day), `L` (saturday),
+   * `<day>L` (last occurrence of the day in the month) and `<day>#<n>` (nth occurrence of the
+   * day in the month). Both `0` and `7` stand for sunday.
+   */
+  private parseDayOfWeek(
+    [field, position]: [string, number],
+    errors: CronValidationError[],
+  ): CronTime {
+    const cronTime: CronTime = { dayOfWeek: [] };
+    for (const [item, offset] of this.splitItems(field, position)) {
+      // special characters are case-insensitive, errors quote the item as written
+      const special = item.toUpperCase();
+      if (special === "L") {
+        cronTime.dayOfWeek!.push(6);
+      } else if (special.length > 1 && special.endsWith("L")) {
+        const day = this.parseValue(
+          "dayOfWeek",
+          item.slice(0, -1),
+          offset,
+          errors,
+        );
+        if (day !== undefined) {
+          cronTime.lastDayOfWeek = [...(cronTime.lastDayOfWeek || []), day % 7];
+        }
+      } else if (item.includes("#")) {
+        const [value, nth, ...rest] = item.split("#");
+        const day = this.parseValue("dayOfWeek", value, offset, errors);
+        if (rest.length || !/^[1-5]$/.test(nth)) {
+          errors.push({
+            field: "dayOfWeek",
+            token: item,
+            position: offset,
+            message: `Invalid occurrence "${item.slice(value.length + 1)}" in the dayOfWeek field, expected 1-5`,
+          });
+        } else if (day !== undefined) {
+          cronTime.nthDayOfWeek = [
+            ...(cronTime.nthDayOfWeek || []),
+            [day % 7, parseInt(nth)],
+          ];
+        }
+      } else {
+        cronTime.dayOfWeek!.push(
+          ...this.parseItem(
+            "dayOfWeek",
+            item === "?" ? "*" : item,
+            offset,
+            errors,
+          ).map((day) => day % 7),
+        );
+      }
+    }
+    cronTime.dayOfWeek = [...new Set(cronTime.dayOfWeek)].sort((a, b) => a - b);
+    return cronTime;
+  }
+
+  /**
+   * Checks if the day of the given wall-clock time (read through its UTC getters) matches the
+   * cron time.
+   */
+  private checkDay(cronTime: CronTime, date: Date): boolean {
+    return cronTime.eitherDay
+      ? this.checkDayOfMonth(cronTime, date) ||
+          this.checkDayOfWeek(cronTime, date)
+      : this.checkDayOfMonth(cronTime, date) &&
+          this.checkDayOfWeek(cronTime, date);
+  }
+
+  /**
+   * Checks if the day of the month of the given wall-clock time matches the cron time.
+   */
+  private checkDayOfMonth(cronTime: CronTime, date: Date): boolean {
+    const day = date.getUTCDate();
+    if (!cronTime.dayOfMonth || cronTime.dayOfMonth.includes(day)) {
+      return true;
     }
-    if (cronTime.dayOfMonth && !cronTime.dayOfMonth.includes(date.getDate())) {
-      return false;
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    if (cronTime.lastDayOfMonth && day === lastDay) {
+      return true;
     }
-    if (cronTime.month && !cronTime.month.includes(date.getMonth() + 1)) {
-      return false;
-    } else if (
-      cronTime.dayOfWeek &&
-      !cronTime.dayOfWeek.includes(date.getDay())
+    if (
+      cronTime.lastWeekdayOfMonth &&
+      day === this.getNearestWeekday(year, month, lastDay)
     ) {
-      return false;
+      return true;
+    }
+    return !!cronTime.nearestWeekday?.some(
+      (target) => this.getNearestWeekday(year, month, target) === day,
+    );
+  }
+
+  /**
+   * Checks if the day of the week of the given wall-clock time matches the cron time.
+   */
+  private checkDayOfWeek(cronTime: CronTime, date: Date): boolean {
+    const weekday = date.getUTCDay();
+    if (!cronTime.dayOfWeek || cronTime.dayOfWeek.includes(weekday)) {
+      return true;
+    }
+    const day = date.getUTCDate();
+    const lastDay = new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0),
+    ).getUTCDate();
+    if (cronTime.lastDayOfWeek?.includes(weekday) && day + 7 > lastDay) {
+      return true;
+    }
+    return !!cronTime.nthDayOfWeek?.some(
+      ([target, nth]) => target === weekday && Math.ceil(day / 7) === nth,
+    );
+  }
+
+  /**
+   * Gets the weekday nearest to a day of the month without leaving the month, or `undefined`
+   * if the month doesn't have that day.
+   */
+  private getNearestWeekday(
+    year: number,
+    month: number,
+    day: number,
+  ): number | undefined {
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    if (day > lastDay) {
+      return undefined;
+    }
+    const weekday = new Date(Date.UTC(year, month, day)).getUTCDay();
+    if (weekday === 6) {
+      return day === 1 ? day + 2 : day - 1;
+    }
+    if (weekday === 0) {
+      return day === lastDay ? day - 2 : day + 1;
     }
-    return true;
+    return day;
   }
 }
 
@@ -0,0 +1,167 @@
+import { type Clock } from '@/lib/types';
+
+/**
+ * The longest a timer is armed for, so changes of the system time are
+ * noticed within a minute.
+ */
+const MAX_DELAY = 60 * 1000;
+
+/**
+ * A task waiting in the queue of a scheduler.
+ */
+type Entry = {
+  key: object;
+  at: number;
+  seq: number;
+  callback: () => void;
+};
+
+/**
+ * A scheduler firing tasks at given times from a priority queue, with a
+ * single timer armed for the earliest task.
+ */
+class Scheduler {
+  private heap: Entry[] = [];
+  private entries: Map<object, Entry> = new Map();
+  private timer: unknown = null;
+  private seq = 0;
+  private running = false;
+
+  /**
+   * Creates a new instance of the `Scheduler` class.
+   */
+  constructor(private clock: Clock) {}
+
+  /**
+   * Schedules the task of a key at the given time, replacing the task it
+   * already had: the replaced task stays in the heap until it reaches the
+   * top and is found stale.
+   */
+  schedule(key: object, at: number, callback: () => void): void {
+    const entry = { key, at, seq: this.seq++, callback };
+    this.entries.set(key, entry);
+    this.push(entry);
+    this.arm();
+  }
+
+  /**
+   * Removes the task of a key from the queue.
+   */
+  unschedule(key: object): void {
+    // the task is dropped from the heap once it reaches the top
+    if (this.entries.delete(key)) {
+      this.arm();
+    }
+  }
+
+  /**
+   * Arms the timer for the earliest task, or clears it when there's none.
+   */
+  private arm(): void {
+    // tasks rescheduled while running are armed for once they all ran
+    if (this.running) {
+      return;
+    }
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const top = this.peek();
+    if (!top) {
+      return;
+    }
+    const delay = Math.min(Math.max(top.at - this.clock.now(), 0), MAX_DELAY);
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      this.run();
+    }, delay);
+  }
+
+  /**
+   * Runs the tasks due, then arms the timer for the next one.
+   */
+  private run(): void {
+    const now = this.clock.now();
+    const due: Entry[] = [];
+    for (let top = this.peek(); top && top.at <= now; top = this.peek()) {
+      this.pop();
+      this.entries.delete(top.key);
+      due.push(top);
+    }
+    this.running = true;
+    try {
+      due.forEach((entry) => entry.callback());
+    } finally {
+      this.running = false;
+    }
+    this.arm();
+  }
+
+  /**
+   * Gets the earliest task still scheduled, dropping the cancelled ones.
+   */
+  private peek(): Entry | undefined {
+    while (
+      this.heap.length &&
+      this.entries.get(this.heap[0].key) !== this.heap[0]
+    ) {
+      this.pop();
+    }
+    return this.heap[0];
+  }
+
+  /**
+   * Checks if an entry comes before another, the oldest first on ties.
+   */
+  private before(a: Entry, b: Entry): boolean {
+    return a.at < b.at || (a.at === b.at && a.seq < b.seq);
+  }
+
+  /**
+   * Adds an entry to the heap.
+   */
+  private push(entry: Entry): void {
+    const heap = this.heap;
+    heap.push(entry);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(heap[i], heap[parent])) {
+        break;
+      }
+      [heap[i], heap[parent]] = [heap[parent], heap[i]];
+      i = parent;
+    }
+  }
+
+  /**
+   * Removes the top entry of the heap.
+   */
+  private pop(): void {
+    const heap = this.heap;
+    const last = heap.pop()!;
+    if (!heap.length) {
+      return;
+    }
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < heap.length && this.before(heap[left], heap[smallest])) {
+        smallest = left;
+      }
+      if (right < heap.length && this.before(heap[right], heap[smallest])) {
+        smallest = right;
+      }
+      if (smallest === i) {
+        break;
+      }
+      [heap[i], heap[smallest]] = [heap[smallest], heap[i]];
+      i = smallest;
+    }
+  }
+}
+
+export { Scheduler };
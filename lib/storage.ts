@@ -0,0 +1,314 @@
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import type { Database } from 'bun:sqlite';
+import {
+  type IStorage,
+  type JobState,
+  type RunRecord,
+  type Status,
+} from '@/lib/types';
+
+/**
+ * A type that defines the options shared by the built-in storages.
+ */
+type StorageOptions = {
+  /**
+   * The number of run records kept for each cron job, 100 by default.
+   */
+  maxRuns?: number;
+};
+
+/**
+ * The content of the file of a `FileStorage`, its dates written as strings.
+ */
+type FileContent = {
+  jobs?: Record<string, Omit<JobState, 'lastRun'> & { lastRun: string | null }>;
+  runs?: Record<
+    string,
+    (Omit<RunRecord, 'startedAt' | 'finishedAt'> & {
+      startedAt: string;
+      finishedAt: string;
+    })[]
+  >;
+};
+
+/**
+ * A row of the jobs table of a `SqliteStorage`.
+ */
+type JobRow = {
+  name: string;
+  status: Status;
+  last_run: number | null;
+  runs: number | null;
+};
+
+/**
+ * A row of the runs table of a `SqliteStorage`.
+ */
+type RunRow = {
+  name: string;
+  started_at: number;
+  finished_at: number;
+  success: 0 | 1;
+  error: string | null;
+};
+
+/**
+ * A storage keeping the state of the cron jobs in memory, mostly useful for
+ * tests and as the base of other storages.
+ */
+class MemoryStorage implements IStorage {
+  protected jobs: Map<string, JobState> = new Map();
+  protected runs: Map<string, RunRecord[]> = new Map();
+  protected maxRuns: number;
+
+  /**
+   * Creates a new instance of the `MemoryStorage` class.
+   */
+  constructor(options: StorageOptions = {}) {
+    this.maxRuns = options.maxRuns ?? 100;
+  }
+
+  async loadJobs(): Promise<JobState[]> {
+    return [...this.jobs.values()].map((state) => ({ ...state }));
+  }
+
+  async saveJob(state: JobState): Promise<void> {
+    this.jobs.set(state.name, { ...state });
+  }
+
+  async removeJob(name: string): Promise<void> {
+    this.jobs.delete(name);
+    this.runs.delete(name);
+  }
+
+  async saveRun(record: RunRecord): Promise<void> {
+    const runs = [{ ...record }, ...(this.runs.get(record.name) || [])];
+    this.runs.set(record.name, runs.slice(0, this.maxRuns));
+  }
+
+  async loadRuns(name: string, limit?: number): Promise<RunRecord[]> {
+    return (this.runs.get(name) || [])
+      .slice(0, limit)
+      .map((record) => ({ ...record }));
+  }
+}
+
+/**
+ * A storage keeping the state of the cron jobs in a JSON file. The file is
+ * read once and rewritten after each change.
+ */
+class FileStorage extends MemoryStorage {
+  private loaded: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new instance of the `FileStorage` class.
+   */
+  constructor(
+    private path: string,
+    options: StorageOptions = {},
+  ) {
+    super(options);
+  }
+
+  async loadJobs(): Promise<JobState[]> {
+    await this.load();
+    return super.loadJobs();
+  }
+
+  async saveJob(state: JobState): Promise<void> {
+    await this.load();
+    await super.saveJob(state);
+    return this.write();
+  }
+
+  async removeJob(name: string): Promise<void> {
+    await this.load();
+    await super.removeJob(name);
+    return this.write();
+  }
+
+  async saveRun(record: RunRecord): Promise<void> {
+    await this.load();
+    await super.saveRun(record);
+    return this.write();
+  }
+
+  async loadRuns(name: string, limit?: number): Promise<RunRecord[]> {
+    await this.load();
+    return super.loadRuns(name, limit);
+  }
+
+  /**
+   * Reads the file once, a missing file is an empty storage. A failed read is
+   * tried again by the next call.
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readFile(this.path, 'utf8')
+        .then((content) => {
+          const data: FileContent = JSON.parse(content);
+          Object.values(data.jobs || {}).forEach((state) =>
+            this.jobs.set(state.name, {
+              ...state,
+              lastRun: state.lastRun ? new Date(state.lastRun) : null,
+            }),
+          );
+          Object.entries(data.runs || {}).forEach(([name, runs]) =>
+            this.runs.set(
+              name,
+              runs.map((record) => ({
+                ...record,
+                startedAt: new Date(record.startedAt),
+                finishedAt: new Date(record.finishedAt),
+              })),
+            ),
+          );
+        })
+        .catch((error) => {
+          if (error.code !== 'ENOENT') {
+            this.loaded = null;
+            throw error;
+          }
+        });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Writes the file through a temporary file, one write at a time.
+   */
+  private write(): Promise<void> {
+    const content = JSON.stringify({
+      jobs: Object.fromEntries(this.jobs),
+      runs: Object.fromEntries(this.runs),
+    });
+    const temporary = `${this.path}.tmp`;
+    this.writing = this.writing
+      .catch(() => {})
+      .then(() => writeFile(temporary, content))
+      .then(() => rename(temporary, this.path));
+    return this.writing;
+  }
+}
+
+/**
+ * A storage keeping the state of the cron jobs in a SQLite database through
+ * `bun:sqlite`, so it's only available when running on Bun.
+ */
+class SqliteStorage implements IStorage {
+  private database: Promise<Database> | null = null;
+  private maxRuns: number;
+
+  /**
+   * Creates a new instance of the `SqliteStorage` class.
+   */
+  constructor(
+    private path: string = ':memory:',
+    options: StorageOptions = {},
+  ) {
+    this.maxRuns = options.maxRuns ?? 100;
+  }
+
+  async loadJobs(): Promise<JobState[]> {
+    const database = await this.open();
+    return database
+      .query<JobRow, []>('SELECT name, status, last_run, runs FROM jobs')
+      .all()
+      .map((row) => ({
+        name: row.name,
+        status: row.status,
+        lastRun: row.last_run === null ? null : new Date(row.last_run),
+        ...(row.runs !== null && { runs: row.runs }),
+      }));
+  }
+
+  async saveJob(state: JobState): Promise<void> {
+    const database = await this.open();
+    database
+      .query<JobRow, [string, Status, number | null, number | null]>(
+        'INSERT OR REPLACE INTO jobs (name, status, last_run, runs) VALUES (?, ?, ?, ?)',
+      )
+      .run(
+        state.name,
+        state.status,
+        state.lastRun?.getTime() ?? null,
+        state.runs ?? null,
+      );
+  }
+
+  async removeJob(name: string): Promise<void> {
+    const database = await this.open();
+    database
+      .query<JobRow, [string]>('DELETE FROM jobs WHERE name = ?')
+      .run(name);
+    database
+      .query<RunRow, [string]>('DELETE FROM runs WHERE name = ?')
+      .run(name);
+  }
+
+  async saveRun(record: RunRecord): Promise<void> {
+    const database = await this.open();
+    database
+      .query<RunRow, [string, number, number, 0 | 1, string | null]>(
+        'INSERT INTO runs (name, started_at, finished_at, success, error) VALUES (?, ?, ?, ?, ?)',
+      )
+      .run(
+        record.name,
+        record.startedAt.getTime(),
+        record.finishedAt.getTime(),
+        record.success ? 1 : 0,
+        record.error ?? null,
+      );
+    database
+      .query<RunRow, [string, string, number]>(
+        'DELETE FROM runs WHERE name = ? AND id NOT IN (SELECT id FROM runs WHERE name = ? ORDER BY id DESC LIMIT ?)',
+      )
+      .run(record.name, record.name, this.maxRuns);
+  }
+
+  async loadRuns(name: string, limit?: number): Promise<RunRecord[]> {
+    const database = await this.open();
+    return database
+      .query<RunRow, [string, number]>(
+        'SELECT name, started_at, finished_at, success, error FROM runs WHERE name = ? ORDER BY id DESC LIMIT ?',
+      )
+      .all(name, limit ?? -1)
+      .map((row) => ({
+        name: row.name,
+        startedAt: new Date(row.started_at),
+        finishedAt: new Date(row.finished_at),
+        success: row.success === 1,
+        ...(row.error !== null && { error: row.error }),
+      }));
+  }
+
+  /**
+   * Opens the database and creates its tables once. `bun:sqlite` is imported
+   * lazily so the other storages keep working outside of Bun.
+   */
+  private open(): Promise<Database> {
+    if (!this.database) {
+      this.database = import('bun:sqlite').then(({ Database }) => {
+        const database = new Database(this.path);
+        database.run(
+          'CREATE TABLE IF NOT EXISTS jobs (name TEXT PRIMARY KEY, status TEXT NOT NULL, last_run INTEGER, runs INTEGER)',
+        );
+        // the databases of older versions have no run count
+        const columns = database
+          .query<{ name: string }, []>('PRAGMA table_info(jobs)')
+          .all();
+        if (!columns.some((column) => column.name === 'runs')) {
+          database.run('ALTER TABLE jobs ADD COLUMN runs INTEGER');
+        }
+        database.run(
+          'CREATE TABLE IF NOT EXISTS runs (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL, started_at INTEGER NOT NULL, finished_at INTEGER NOT NULL, success INTEGER NOT NULL, error TEXT)',
+        );
+        return database;
+      });
+    }
+    return this.database;
+  }
+}
+
+export { type StorageOptions, MemoryStorage, FileStorage, SqliteStorage };
@@ -0,0 +1,129 @@
+/**
+ * A cache of `Intl.DateTimeFormat` instances keyed by time zone, building a
+ * formatter is a lot more expensive than using one.
+ */
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+/**
+ * Gets (or creates) the formatter used to read wall-clock fields in a time zone.
+ */
+const getFormatter = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Checks if the specified string is a time zone known to the runtime.
+ * @returns `true` if the time zone is valid, `false` otherwise.
+ */
+const isValidTimezone = (timezone: string): boolean => {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * Gets the offset in milliseconds between the wall-clock time in the specified
+ * time zone and UTC at the given instant. Uses the host time zone when no time
+ * zone is specified.
+ */
+const getTimezoneOffset = (date: Date, timezone?: string): number => {
+  if (!timezone) {
+    return -date.getTimezoneOffset() * 60_000;
+  }
+  const fields: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      fields[part.type] = parseInt(part.value);
+    }
+  }
+  const wall = Date.UTC(
+    fields.year,
+    fields.month - 1,
+    fields.day,
+    fields.hour % 24,
+    fields.minute,
+    fields.second,
+  );
+  return wall - (date.getTime() - date.getUTCMilliseconds());
+};
+
+/**
+ * Converts an instant to the wall-clock time in the specified time zone. The
+ * wall-clock fields are exposed through the UTC getters of the returned date.
+ */
+const toZonedTime = (date: Date, timezone?: string): Date => {
+  return new Date(date.getTime() + getTimezoneOffset(date, timezone));
+};
+
+/**
+ * The span searched on each side of a wall-clock time for offset changes, no
+ * time zone changes its offset twice within a day.
+ */
+const DAY = 86_400_000;
+
+/**
+ * Resolves a wall-clock time (read through its UTC getters) in the specified
+ * time zone to the instants showing that time. Returns a single instant for
+ * most times, two instants for times repeated when the clock falls back and
+ * no instant for times skipped when the clock springs forward.
+ */
+const resolveZonedTime = (wall: Date, timezone?: string): Date[] => {
+  const offsets = new Set([
+    getTimezoneOffset(new Date(wall.getTime() - DAY), timezone),
+    getTimezoneOffset(wall, timezone),
+    getTimezoneOffset(new Date(wall.getTime() + DAY), timezone),
+  ]);
+  const instants: Date[] = [];
+  offsets.forEach((offset) => {
+    const instant = new Date(wall.getTime() - offset);
+    if (getTimezoneOffset(instant, timezone) === offset) {
+      instants.push(instant);
+    }
+  });
+  return instants.sort((a, b) => a.getTime() - b.getTime());
+};
+
+/**
+ * Gets the first instant after the gap containing a skipped wall-clock time
+ * (read through its UTC getters), i.e. the moment the clock sprang forward.
+ */
+const getGapEnd = (wall: Date, timezone?: string): Date => {
+  const before = getTimezoneOffset(new Date(wall.getTime() - DAY), timezone);
+  const after = getTimezoneOffset(new Date(wall.getTime() + DAY), timezone);
+  let start = wall.getTime() - after;
+  let end = wall.getTime() - before;
+  while (end - start > 1000) {
+    const middle = start + Math.floor((end - start) / 2000) * 1000;
+    if (getTimezoneOffset(new Date(middle), timezone) === after) {
+      end = middle;
+    } else {
+      start = middle;
+    }
+  }
+  return new Date(end);
+};
+
+export {
+  isValidTimezone,
+  getTimezoneOffset,
+  toZonedTime,
+  resolveZonedTime,
+  getGapEnd,
+};
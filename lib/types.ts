@@ -1,10 +1,544 @@
 type CronTime = {
+  /**
+   * The milliseconds matched in the `milliseconds` format, only the start of
+   * the second otherwise.
+   */
+  millisecond?: number[];
   second?: number[];
   minute?: number[];
   hour?: number[];
   dayOfMonth?: number[];
   month?: number[];
   dayOfWeek?: number[];
+  year?: number[];
+  /**
+   * Whether the last day of the month matches (`L` in the day of the month).
+   */
+  lastDayOfMonth?: boolean;
+  /**
+   * Whether the last weekday of the month matches (`LW` in the day of the month).
+   */
+  lastWeekdayOfMonth?: boolean;
+  /**
+   * The days of the month whose nearest weekday matches (`15W` in the day of the month).
+   */
+  nearestWeekday?: number[];
+  /**
+   * The days of the week whose last occurrence in the month matches (`5L` in the day of the week).
+   */
+  lastDayOfWeek?: number[];
+  /**
+   * The days of the week whose nth occurrence in the month matches, as `[day, nth]` pairs
+   * (`2#3` in the day of the week).
+   */
+  nthDayOfWeek?: [number, number][];
+  /**
+   * Whether a day matching either the day of the month or the day of the
+   * week matches, as in Vixie cron when both fields are restricted (neither
+   * starts with `*` or `?`). Both must match otherwise.
+   */
+  eitherDay?: boolean;
+  /**
+   * The fixed interval between the runs of an `@every` preset, which has no
+   * field then.
+   */
+  interval?: CronInterval;
+};
+
+/**
+ * A fixed interval between runs. The months and the days follow the calendar
+ * in the time zone of the cron expression, the milliseconds the elapsed time.
+ */
+type CronInterval = {
+  months: number;
+  days: number;
+  milliseconds: number;
+};
+
+/**
+ * A field of a cron expression.
+ */
+type CronField =
+  | 'millisecond'
+  | 'second'
+  | 'minute'
+  | 'hour'
+  | 'dayOfMonth'
+  | 'month'
+  | 'dayOfWeek'
+  | 'year';
+
+/**
+ * A diagnostic for an invalid part of a cron expression.
+ */
+type CronValidationError = {
+  /**
+   * The field the invalid token belongs to, or `expression` when the
+   * expression as a whole is invalid (e.g. a wrong number of fields).
+   */
+  field: CronField | 'expression';
+  /**
+   * The invalid token.
+   */
+  token: string;
+  /**
+   * The position of the token in the expression. Errors in presets are
+   * reported at the start of the preset.
+   */
+  position: number;
+  /**
+   * A description of the problem.
+   */
+  message: string;
+};
+
+/**
+ * The result of validating a cron expression.
+ */
+type CronValidationResult = {
+  valid: boolean;
+  errors: CronValidationError[];
+};
+
+/**
+ * A unit of time used in the description of a cron expression.
+ */
+type CronDescriptionUnit =
+  'millisecond' | 'second' | 'minute' | 'hour' | 'day' | 'month' | 'year';
+
+/**
+ * A table of the phrases used to describe cron expressions in a language.
+ * Numbers, names and times are formatted by the table before being passed to
+ * the phrases.
+ */
+type CronLocale = {
+  /**
+   * Joins a list of items, e.g. `1, 2 and 3`.
+   */
+  list: (items: string[]) => string;
+  /**
+   * Joins the parts of a description into a sentence.
+   */
+  sentence: (parts: string[]) => string;
+  /**
+   * Formats a time of the day, the seconds are omitted when they're `0`.
+   */
+  time: (hour: number, minute: number, second?: number) => string;
+  /**
+   * Formats an ordinal number, e.g. `second`.
+   */
+  ordinal: (n: number) => string;
+  /**
+   * The names of the months, starting with January.
+   */
+  months: string[];
+  /**
+   * The names of the days of the week, starting with Sunday.
+   */
+  days: string[];
+  everySecond: string;
+  everyMinute: string;
+  everyHour: string;
+  every: (n: number, unit: CronDescriptionUnit) => string;
+  /**
+   * Describes an amount of a unit, e.g. `12 hours`.
+   */
+  amount: (n: number, unit: CronDescriptionUnit) => string;
+  /**
+   * Describes an interval made of several amounts, e.g. `every 1 day and 12 hours`.
+   */
+  everyDuration: (amounts: string) => string;
+  startingAt: (start: string) => string;
+  at: (times: string) => string;
+  atSeconds: (seconds: string) => string;
+  secondsRange: (start: string, end: string) => string;
+  atMinutes: (minutes: string) => string;
+  minutesRange: (start: string, end: string) => string;
+  between: (start: string, end: string) => string;
+  duringHours: (hours: string) => string;
+  onDaysOfMonth: (days: string) => string;
+  daysOfMonthRange: (start: string, end: string) => string;
+  lastDayOfMonth: string;
+  lastWeekdayOfMonth: string;
+  nearestWeekday: (day: string) => string;
+  inMonths: (months: string) => string;
+  onDaysOfWeek: (days: string) => string;
+  lastDayOfWeek: (day: string) => string;
+  nthDayOfWeek: (day: string, nth: string) => string;
+  /**
+   * Joins the days of the month and the days of the week when a day
+   * matching either of them matches, e.g. `on day 1 of the month or Monday`.
+   */
+  eitherDay: (daysOfMonth: string, daysOfWeek: string) => string;
+  inYears: (years: string) => string;
+  /**
+   * Describes a range of months, days of the week or years.
+   */
+  range: (start: string, end: string) => string;
+};
+
+/**
+ * A type that defines the options for describing a cron expression.
+ */
+type DescribeOptions = CronParserOptions & {
+  /**
+   * The name of a registered locale or a locale table, `en` by default.
+   */
+  locale?: string | CronLocale;
+};
+
+/**
+ * How wall-clock times repeated when daylight saving time ends are handled.
+ */
+type RepeatedTimes = 'once' | 'both';
+
+/**
+ * How the runs missed while the process was down or asleep are handled:
+ * `'skip'` drops them, `'runOnce'` runs once for all of them and `'runAll'`
+ * runs each of them.
+ */
+type MisfirePolicy = 'skip' | 'runOnce' | 'runAll';
+
+/**
+ * How a run due while the previous one is still executing is handled:
+ * `'allow'` runs both concurrently, `'skip'` drops the new run, `'queue'` runs
+ * it once the previous one completes and `'cancelPrevious'` abandons the
+ * previous run in favor of the new one.
+ */
+type OverlapPolicy = 'allow' | 'skip' | 'queue' | 'cancelPrevious';
+
+/**
+ * The context of a failed run of a cron job, passed to the error handlers.
+ */
+type ErrorContext = {
+  /**
+   * The name of the cron job.
+   */
+  name: string;
+  /**
+   * The number of attempts made before the run failed.
+   */
+  attempt: number;
+};
+
+/**
+ * The context of a run of a cron job, passed to its callback and `onTick`.
+ */
+type RunContext = {
+  /**
+   * The name of the cron job.
+   */
+  name: string;
+  /**
+   * The time the run was scheduled for.
+   */
+  scheduledAt: Date;
+  /**
+   * The time the attempt actually fired.
+   */
+  firedAt: Date;
+  /**
+   * How late in milliseconds the attempt fired after its scheduled time and
+   * the jitter of the cron job, the accuracy of the timer for a first attempt.
+   */
+  drift: number;
+  /**
+   * The attempt of the run, starting at 1 and growing with each retry.
+   */
+  attempt: number;
+  /**
+   * A unique identifier of the run, shared by its attempts.
+   */
+  runId: string;
+  /**
+   * A signal aborted when the attempt times out or is cancelled by a newer
+   * run, for the callback to stop its work.
+   */
+  signal: AbortSignal;
+};
+
+/**
+ * The outcome of an execution of a cron job. `'timeout'` executions exceeded
+ * the timeout of the cron job and `'cancelled'` ones were abandoned in favor
+ * of a newer run.
+ */
+type ExecutionOutcome = 'success' | 'error' | 'timeout' | 'cancelled';
+
+/**
+ * A record of an execution of a cron job, kept in its history.
+ */
+type ExecutionRecord = {
+  /**
+   * The time the execution was scheduled for.
+   */
+  scheduledAt: Date;
+  /**
+   * The time the execution actually started.
+   */
+  startedAt: Date;
+  /**
+   * How late in milliseconds the execution started after its scheduled time
+   * and the jitter of the cron job, the accuracy of the timer for a first
+   * attempt.
+   */
+  drift: number;
+  /**
+   * How long the execution took in milliseconds.
+   */
+  duration: number;
+  /**
+   * Whether the execution succeeded, threw an error, timed out or was
+   * cancelled.
+   */
+  outcome: ExecutionOutcome;
+  /**
+   * The error thrown by the execution, if any.
+   */
+  error?: unknown;
+  /**
+   * The attempt of the run, starting at 1 and growing with each retry.
+   */
+  attempt: number;
+};
+
+/**
+ * The metrics of the executions of a cron job. The counts and the last
+ * outcomes cover the lifetime of the cron job, the durations cover its
+ * history.
+ */
+type CronMetrics = {
+  /**
+   * The number of runs, each counted once however many attempts it took.
+   * The runs abandoned by the `'cancelPrevious'` overlap policy are excluded.
+   */
+  runs: number;
+  /**
+   * The number of runs that failed once their retries were exhausted,
+   * timeouts included and cancellations excluded.
+   */
+  failures: number;
+  /**
+   * The average duration of the executions in milliseconds, the cancelled
+   * ones excluded.
+   */
+  averageDuration: number;
+  /**
+   * The 95th percentile of the durations of the executions in milliseconds,
+   * the cancelled ones excluded.
+   */
+  p95Duration: number;
+  /**
+   * The start date of the last successful execution, or `null` if none.
+   */
+  lastSuccess: Date | null;
+  /**
+   * The start date of the last attempt of the last failed run, or `null` if
+   * none.
+   */
+  lastFailure: Date | null;
+};
+
+/**
+ * Why a due run of a cron job was skipped: the previous run was still
+ * executing, or the run was missed and dropped by the misfire policy.
+ */
+type SkipReason = 'overlap' | 'misfire';
+
+/**
+ * The events emitted by cron jobs and bakers, with their payloads.
+ */
+type CronEvents = {
+  /**
+   * A cron job was added to a baker.
+   */
+  'job:added': { name: string };
+  /**
+   * A cron job was removed from a baker.
+   */
+  'job:removed': { name: string };
+  /**
+   * The storage of a baker failed to load or save the states or the runs of
+   * its cron jobs, which keep running. When the states can't be loaded, the
+   * cron jobs run from their options.
+   */
+  'storage:error': { error: unknown };
+  /**
+   * A cron job was started.
+   */
+  'job:started': { name: string };
+  /**
+   * A cron job was stopped.
+   */
+  'job:stopped': { name: string };
+  /**
+   * A cron job was paused.
+   */
+  'job:paused': { name: string };
+  /**
+   * A paused cron job was resumed.
+   */
+  'job:resumed': { name: string };
+  /**
+   * A cron job completed, having no run left.
+   */
+  'job:completed': { name: string };
+  /**
+   * An execution of a cron job started, once per attempt.
+   */
+  'run:start': {
+    name: string;
+    scheduledAt: Date;
+    startedAt: Date;
+    drift: number;
+    attempt: number;
+  };
+  /**
+   * An execution of a cron job succeeded.
+   */
+  'run:success': ExecutionRecord & { name: string };
+  /**
+   * A run of a cron job failed, its last attempt having thrown an error or
+   * timed out.
+   */
+  'run:error': ExecutionRecord & { name: string };
+  /**
+   * A due run of a cron job was skipped, once for each run.
+   */
+  'run:skipped': { name: string; scheduledAt: Date; reason: SkipReason };
+};
+
+/**
+ * The name of an event emitted by cron jobs and bakers.
+ */
+type CronEventName = keyof CronEvents;
+
+/**
+ * A function handling an event emitted by cron jobs and bakers.
+ */
+type CronEventHandler<E extends CronEventName> = (
+  payload: CronEvents[E],
+) => void;
+
+/**
+ * A function handling the error of a failed run of a cron job.
+ */
+type ErrorHandler = (error: unknown, context: ErrorContext) => void;
+
+/**
+ * How the runs of a cron job are delayed to spread the load of many jobs
+ * scheduled at the same time.
+ */
+type JitterOptions = {
+  /**
+   * The longest delay in milliseconds added to each run.
+   */
+  max: number;
+  /**
+   * How the delay is chosen, `'random'` draws a new one for each run and
+   * `'name'` derives a stable one from the name of the cron job. Defaults to
+   * `'random'`.
+   */
+  mode?: 'random' | 'name';
+};
+
+/**
+ * How a failed run of a cron job is retried before it's considered failed.
+ */
+type RetryOptions = {
+  /**
+   * The maximum number of attempts, including the first one.
+   */
+  attempts: number;
+  /**
+   * How the delay grows between attempts, `'fixed'` keeps it the same and
+   * `'exponential'` doubles it after each attempt. Defaults to `'fixed'`.
+   */
+  backoff?: 'fixed' | 'exponential';
+  /**
+   * The delay in milliseconds before the first retry. Defaults to 1000.
+   */
+  delay?: number;
+  /**
+   * The maximum delay in milliseconds between attempts. Defaults to no limit.
+   */
+  maxDelay?: number;
+  /**
+   * The fraction of the delay randomly added or removed, from 0 to 1, to
+   * spread the retries of many jobs. Defaults to 0.
+   */
+  jitter?: number;
+  /**
+   * Whether an error is worth a retry. Defaults to retrying every error.
+   */
+  retryable?: (error: unknown) => boolean;
+};
+
+/**
+ * The format of a cron expression: `unix` has 5 fields starting with the
+ * minute, `seconds` has 6 fields starting with the second and `quartz` has
+ * 7 fields, the seconds format followed by the year. `milliseconds` has 7
+ * fields too, the seconds format preceded by the millisecond, so it's never
+ * detected and must be given explicitly.
+ */
+type CronFormat = 'unix' | 'seconds' | 'quartz' | 'milliseconds';
+
+/**
+ * A source of time and timers, the system clock by default. Inject a
+ * `VirtualClock` to control time in tests.
+ */
+interface Clock {
+  /**
+   * Gets the current time in milliseconds since the epoch.
+   */
+  now(): number;
+
+  /**
+   * Calls a function once after a delay in milliseconds.
+   * @returns A handle to cancel the timer with `clearTimeout`.
+   */
+  setTimeout(callback: () => void, ms: number): unknown;
+
+  /**
+   * Cancels a timer created with `setTimeout`.
+   */
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * A type that defines the options for a cron parser.
+ */
+type CronParserOptions = {
+  /**
+   * The format of the cron expression, detected from its number of fields by
+   * default. Presets always use the `seconds` format, except the `@every`
+   * presets which run at fixed intervals.
+   */
+  format?: CronFormat;
+  /**
+   * The IANA time zone the cron expression is evaluated in, e.g. `Europe/Berlin`.
+   * Defaults to the time zone of the host.
+   */
+  timezone?: string;
+  /**
+   * How wall-clock times repeated when daylight saving time ends are handled
+   * for jobs bound to specific hours, `'once'` runs only on the first
+   * occurrence and `'both'` runs on each occurrence. Defaults to `'once'`.
+   */
+  repeatedTimes?: RepeatedTimes;
+  /**
+   * The clock the current time is read from. Defaults to the system clock.
+   */
+  clock?: Clock;
+  /**
+   * The date the intervals of the `@every` presets are counted from.
+   * Defaults to midnight on January 1st, 1970 in the time zone.
+   */
+  anchor?: Date;
+  /**
+   * The key the values of the `H` tokens are derived from, the name of the
+   * cron job for cron jobs. Defaults to an empty string.
+   */
+  hashKey?: string;
 };
 
 /**
@@ -13,25 +547,67 @@ type CronTime = {
  */
 interface ICronParser {
   /**
-   * Parse the cron expression and return a `CronTime` object.
+   * Parse the cron expression and return a `CronTime` object, throwing a
+   * `CronParseError` if the expression is invalid.
    * @returns A `CronTime` object representing the parsed cron expression.
    */
   parse(): CronTime;
 
   /**
-   * Get the next execution time based on the current time.
+   * Validate the cron expression without throwing.
+   * @returns The validation result with a diagnostic for each invalid part of the expression.
+   */
+  validate(): CronValidationResult;
+
+  /**
+   * Get the next execution time after the given date, the current time by default.
    * @returns A `Date` object representing the next execution time.
    */
-  getNext(): Date;
+  getNext(from?: Date): Date;
 
   /**
-   * Get the previous execution time based on the current time.
+   * Get the previous execution time before the given date, the current time by default.
    * @returns A `Date` object representing the previous execution time.
    */
-  getPrevious(): Date;
+  getPrevious(from?: Date): Date;
+
+  /**
+   * Get the next `n` execution times after the given date, the current time by default.
+   * @returns An array of up to `n` dates in ascending order.
+   */
+  take(n: number, from?: Date): Date[];
+
+  /**
+   * Get the previous `n` execution times before the given date, the current time by default.
+   * @returns An array of up to `n` dates in descending order.
+   */
+  takePrevious(n: number, from?: Date): Date[];
+
+  /**
+   * Get all the execution times between two dates, both included.
+   * @returns An array of dates in ascending order.
+   */
+  between(start: Date, end: Date): Date[];
+
+  /**
+   * Lazily iterate over the execution times after the given date, the current time by default.
+   * @returns An iterator of dates in ascending order.
+   */
+  occurrences(from?: Date): IterableIterator<Date>;
 }
 
+/**
+ * A type that defines the options for computing the occurrences of a cron expression.
+ */
+type OccurrenceOptions = CronParserOptions & {
+  /**
+   * The date the occurrences are computed from, the current time by default.
+   */
+  from?: Date;
+};
+
 type unit =
+  | 'milliseconds'
   | 'seconds'
   | 'minutes'
   | 'hours'
@@ -48,11 +624,33 @@ type day =
   | 'friday'
   | 'saturday';
 
+type durationUnit = 'ms' | 's' | 'm' | 'h' | 'd' | 'w';
+
 type EveryStrType<U extends unit = unit> = `@every_${string}_${U}`;
+type DurationStrType =
+  `@every_P${string}` | `@every_${number}${durationUnit}${string}`;
 type AtHourStrType = `@at_${number}:${number}`;
-type OnDayStrType<D extends day = day> = `@on_${D}`;
+type OnDayStrType<D extends day = day> = `@on_${D}` | `@on_${D},${string}`;
+type WeekStrType = '@every_weekday' | '@every_weekend';
 type BetweenStrType = `@between_${number}_${number}`;
 
+/**
+ * The presets that can be combined with each other, e.g. `@on_monday@at_09:30`.
+ * Only the first two presets of a combination are checked by the types, the
+ * others are checked when parsed.
+ */
+type PresetStrType =
+  | '@every_second'
+  | '@every_minute'
+  | EveryStrType
+  | WeekStrType
+  | AtHourStrType
+  | OnDayStrType
+  | BetweenStrType;
+type ComposedStrType =
+  | `${PresetStrType}${PresetStrType}`
+  | `${PresetStrType}${PresetStrType}@${string}`;
+
 type CronExprs =
   | '@every_second'
   | '@every_minute'
@@ -63,20 +661,401 @@ type CronExprs =
   | '@daily'
   | '@hourly'
   | EveryStrType
+  | DurationStrType
   | AtHourStrType
   | OnDayStrType
-  | BetweenStrType;
+  | WeekStrType
+  | BetweenStrType
+  | ComposedStrType;
 
 type CronStr = `${string} ${string} ${string} ${string} ${string} ${string}`;
 type CronExpression = CronExprs | CronStr;
 
+type NonZeroDigit = '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9';
+type Digit = '0' | NonZeroDigit;
+
+/**
+ * The values accepted in each field, without leading zeros.
+ */
+type CronFieldValues = {
+  millisecond:
+    Digit | `${NonZeroDigit}${Digit}` | `${NonZeroDigit}${Digit}${Digit}`;
+  second: Digit | `${'1' | '2' | '3' | '4' | '5'}${Digit}`;
+  minute: Digit | `${'1' | '2' | '3' | '4' | '5'}${Digit}`;
+  hour: Digit | `1${Digit}` | `2${'0' | '1' | '2' | '3'}`;
+  dayOfMonth: NonZeroDigit | `${'1' | '2'}${Digit}` | `3${'0' | '1'}`;
+  month: NonZeroDigit | `1${'0' | '1' | '2'}`;
+  dayOfWeek: '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7';
+  year: `19${'7' | '8' | '9'}${Digit}` | `20${Digit}${Digit}`;
+};
+
 /**
- * A type that takes a string and returns a `CronExprs` type if the string starts with '@',
- * otherwise returns the input string.
+ * The range of values of each field, as reported in the errors.
  */
-type CronExpressionType<T extends string> = T extends `@${infer U}`
-  ? CronExprs
-  : T;
+type CronFieldRanges = {
+  millisecond: '0-999';
+  second: '0-59';
+  minute: '0-59';
+  hour: '0-23';
+  dayOfMonth: '1-31';
+  month: '1-12';
+  dayOfWeek: '0-7';
+  year: '1970-2099';
+};
+
+/**
+ * The names accepted in each field.
+ */
+type CronFieldNames = {
+  [F in CronField]: F extends 'month'
+    ? | 'JAN'
+      | 'FEB'
+      | 'MAR'
+      | 'APR'
+      | 'MAY'
+      | 'JUN'
+      | 'JUL'
+      | 'AUG'
+      | 'SEP'
+      | 'OCT'
+      | 'NOV'
+      | 'DEC'
+    : F extends 'dayOfWeek'
+      ? 'SUN' | 'MON' | 'TUE' | 'WED' | 'THU' | 'FRI' | 'SAT'
+      : never;
+};
+
+/**
+ * A type-level error reported for an invalid cron expression literal.
+ */
+type CronTypeError<Message extends string> =
+  `Invalid cron expression: ${Message}`;
+
+type IsDigits<S extends string> = S extends `${Digit}${infer R}`
+  ? R extends ''
+    ? true
+    : IsDigits<R>
+  : false;
+type StripZeros<S extends string> = S extends `0${infer R}`
+  ? R extends ''
+    ? '0'
+    : StripZeros<R>
+  : S;
+
+/**
+ * The checks of the parts of a cron expression, each resolving to `true` or
+ * to the message of the first error, worded like the runtime diagnostics.
+ */
+type CheckValue<F extends CronField, V extends string> =
+  Uppercase<V> extends CronFieldNames[F]
+    ? true
+    : IsDigits<V> extends true
+      ? StripZeros<V> extends CronFieldValues[F]
+        ? true
+        : `Value ${StripZeros<V>} is out of the range ${CronFieldRanges[F]} of the ${F} field`
+      : `Invalid value "${V}" in the ${F} field`;
+type CheckRange<
+  F extends CronField,
+  R extends string,
+> = R extends `${infer A}-${infer B}`
+  ? B extends `${string}-${string}`
+    ? `Invalid range "${R}" in the ${F} field`
+    : CheckValue<F, A> extends true
+      ? CheckValue<F, B>
+      : CheckValue<F, A>
+  : CheckValue<F, R>;
+type CheckSpan<F extends CronField, R extends string> = R extends '*' | 'H'
+  ? true
+  : R extends `H(${infer A}-${infer B})`
+    ? CheckRange<F, `${A}-${B}`>
+    : R extends `H${string}`
+      ? `Invalid hash "${R}" in the ${F} field`
+      : CheckRange<F, R>;
+type CheckStep<
+  F extends CronField,
+  I extends string,
+> = I extends `${infer R}/${infer S}`
+  ? IsDigits<S> extends true
+    ? StripZeros<S> extends '0'
+      ? `Invalid step "${S}" in the ${F} field`
+      : CheckSpan<F, R>
+    : `Invalid step "${S}" in the ${F} field`
+  : CheckSpan<F, I>;
+type CheckItem<F extends CronField, I extends string> = F extends 'dayOfMonth'
+  ? Uppercase<I> extends '?' | 'L' | 'LW'
+    ? true
+    : I extends `${infer V}W` | `${infer V}w`
+      ? CheckValue<F, V>
+      : CheckStep<F, I>
+  : F extends 'dayOfWeek'
+    ? Uppercase<I> extends '?' | 'L'
+      ? true
+      : I extends `${infer V}#${infer N}`
+        ? N extends '1' | '2' | '3' | '4' | '5'
+          ? CheckValue<F, V>
+          : `Invalid occurrence "${N}" in the dayOfWeek field, expected 1-5`
+        : I extends `${infer V}L` | `${infer V}l`
+          ? CheckValue<F, V>
+          : CheckStep<F, I>
+    : CheckStep<F, I>;
+type CheckField<
+  F extends CronField,
+  S extends string,
+> = S extends `${infer I},${infer R}`
+  ? CheckItem<F, I> extends true
+    ? CheckField<F, R>
+    : CheckItem<F, I>
+  : CheckItem<F, S>;
+type CheckFields<
+  Fields extends string[],
+  Names extends CronField[],
+> = Fields extends [infer S extends string, ...infer Rest extends string[]]
+  ? Names extends [
+      infer F extends CronField,
+      ...infer Others extends CronField[],
+    ]
+    ? CheckField<F, S> extends true
+      ? CheckFields<Rest, Others>
+      : CheckField<F, S>
+    : true
+  : true;
+
+type SplitFields<S extends string> = S extends `${infer H} ${infer R}`
+  ? H extends ''
+    ? SplitFields<R>
+    : [H, ...SplitFields<R>]
+  : S extends ''
+    ? []
+    : [S];
+type UnixFields = ['minute', 'hour', 'dayOfMonth', 'month', 'dayOfWeek'];
+
+/**
+ * Checks the fields of a cron expression in the format given by their
+ * number. Seven fields are valid in either the quartz or the milliseconds
+ * format, the errors being reported for the quartz format.
+ */
+type CheckCronStr<Fields extends string[]> = Fields['length'] extends 5
+  ? CheckFields<Fields, UnixFields>
+  : Fields['length'] extends 6
+    ? CheckFields<Fields, ['second', ...UnixFields]>
+    : Fields['length'] extends 7
+      ? CheckFields<Fields, ['second', ...UnixFields, 'year']> extends true
+        ? true
+        : CheckFields<
+              Fields,
+              ['millisecond', 'second', ...UnixFields]
+            > extends true
+          ? true
+          : CheckFields<Fields, ['second', ...UnixFields, 'year']>
+      : `Expected 5, 6 or 7 fields but got ${Fields['length']}`;
+
+type Aliases =
+  | '@every_second'
+  | '@every_minute'
+  | '@yearly'
+  | '@annually'
+  | '@monthly'
+  | '@weekly'
+  | '@daily'
+  | '@hourly';
+
+/**
+ * The field stepped through by each unit of the `@every_<number>_<unit>`
+ * presets when combined with other presets.
+ */
+type StepFields = {
+  seconds: 'second';
+  minutes: 'minute';
+  hours: 'hour';
+  dayOfMonth: 'dayOfMonth';
+  months: 'month';
+  dayOfWeek: 'dayOfWeek';
+};
+
+type IsNonZero<N extends string> = N extends `${string}${NonZeroDigit}${string}`
+  ? true
+  : false;
+type IsDecimal<N extends string> = N extends `${infer I}.${infer F}`
+  ? [IsDigits<I>, IsDigits<F>] extends [true, true]
+    ? true
+    : false
+  : IsDigits<N>;
+
+/**
+ * Checks the components of an ISO 8601 duration with the given designators in
+ * order, resolving to whether one of them is not zero, or to `'invalid'` when
+ * something is left over.
+ */
+type CheckIsoComponents<
+  S extends string,
+  Designators extends string[],
+  State extends 'zero' | 'nonzero' = 'zero',
+> = Designators extends [infer D extends string, ...infer Rest extends string[]]
+  ? S extends `${infer N}${D}${infer R}`
+    ? (D extends 'S' ? IsDecimal<N> : IsDigits<N>) extends true
+      ? CheckIsoComponents<
+          R,
+          Rest,
+          IsNonZero<N> extends true ? 'nonzero' : State
+        >
+      : CheckIsoComponents<S, Rest, State>
+    : CheckIsoComponents<S, Rest, State>
+  : S extends ''
+    ? State
+    : 'invalid';
+type CheckIsoDuration<D extends string> = D extends `${infer Day}T${infer Time}`
+  ? Time extends ''
+    ? false
+    : [
+          CheckIsoComponents<Day, ['Y', 'M', 'W', 'D']>,
+          CheckIsoComponents<Time, ['H', 'M', 'S']>,
+        ] extends infer Result extends string[]
+      ? 'invalid' extends Result[number]
+        ? false
+        : 'nonzero' extends Result[number]
+          ? true
+          : false
+      : false
+  : CheckIsoComponents<D, ['Y', 'M', 'W', 'D']> extends 'nonzero'
+    ? true
+    : false;
+type CheckCompoundDuration<
+  S extends string,
+  N extends string = '',
+  NonZero extends boolean = false,
+> = S extends `${infer C}${infer R}`
+  ? C extends Digit
+    ? CheckCompoundDuration<R, `${N}${C}`, NonZero>
+    : N extends ''
+      ? false
+      : S extends `ms${infer Rest}`
+        ? CheckNextDuration<Rest, N, NonZero>
+        : C extends 'w' | 'd' | 'h' | 'm' | 's'
+          ? CheckNextDuration<R, N, NonZero>
+          : false
+  : false;
+type CheckNextDuration<
+  S extends string,
+  N extends string,
+  NonZero extends boolean,
+> =
+  IsNonZero<N> extends true
+    ? S extends ''
+      ? true
+      : CheckCompoundDuration<S, '', true>
+    : S extends ''
+      ? NonZero
+      : CheckCompoundDuration<S, '', NonZero>;
+type CheckInterval<V extends string> = V extends `P${infer D}`
+  ? CheckIsoDuration<D>
+  : V extends `${infer N}_${infer U}`
+    ? IsDigits<N> extends true
+      ? U extends unit
+        ? IsNonZero<N>
+        : false
+      : false
+    : CheckCompoundDuration<V>;
+type CheckDays<D extends string> = D extends `${infer A},${infer R}`
+  ? A extends day
+    ? CheckDays<R>
+    : false
+  : D extends day
+    ? true
+    : false;
+/**
+ * Checks one of the presets of a combination, resolving to the fields it sets,
+ * to the message of the first error, or to `false` when it's unknown.
+ */
+type CheckPresetPart<P extends string> = P extends '@every_second'
+  ? ['second']
+  : P extends '@every_minute'
+    ? ['minute']
+    : P extends '@every_weekday' | '@every_weekend'
+      ? ['dayOfWeek']
+      : P extends `@every_${infer N}_${infer U}`
+        ? U extends keyof StepFields
+          ? IsDigits<N> extends true
+            ? CheckStep<StepFields[U], `*/${N}`> extends true
+              ? [StepFields[U]]
+              : CheckStep<StepFields[U], `*/${N}`>
+            : false
+          : false
+        : P extends `@at_${infer H}:${infer M}`
+          ? [IsDigits<H>, IsDigits<M>] extends [true, true]
+            ? CheckValue<'hour', H> extends true
+              ? CheckValue<'minute', M> extends true
+                ? ['hour' | 'minute']
+                : CheckValue<'minute', M>
+              : CheckValue<'hour', H>
+            : false
+          : P extends `@on_${infer D}`
+            ? CheckDays<D> extends true
+              ? ['dayOfWeek']
+              : false
+            : P extends `@between_${infer A}_${infer B}`
+              ? CheckRange<'hour', `${A}-${B}`> extends true
+                ? ['hour']
+                : CheckRange<'hour', `${A}-${B}`>
+              : false;
+
+/**
+ * Checks the presets of a combination one at a time, none of them setting a
+ * field already set by another.
+ */
+type CheckPresetParts<
+  S extends string,
+  Set extends string = never,
+> = S extends `@${infer P}@${infer R}`
+  ? CheckNextPart<CheckPresetPart<`@${P}`>, `@${R}`, Set>
+  : CheckNextPart<CheckPresetPart<S>, '', Set>;
+type CheckNextPart<
+  Result,
+  Rest extends string,
+  Set extends string,
+> = Result extends [infer F extends string]
+  ? [F & Set] extends [never]
+    ? Rest extends ''
+      ? true
+      : CheckPresetParts<Rest, Set | F>
+    : false
+  : Result;
+
+/**
+ * Checks a preset, which is either an alias, an `@every` preset running at a
+ * fixed interval, or a combination of presets setting fields.
+ */
+type CheckPreset<T extends string> = T extends Aliases
+  ? true
+  : T extends `@every_${infer V}`
+    ? V extends `${string}@${string}`
+      ? CheckPresetParts<T>
+      : CheckInterval<V> extends true
+        ? true
+        : CheckPresetParts<T>
+    : CheckPresetParts<T>;
+
+/**
+ * A type that checks a cron expression literal, resolving to the literal when
+ * it's valid and to a `CronTypeError` describing the first error otherwise.
+ * Presets must be known, with values in the range of the fields they set, and
+ * the fields of other expressions must hold values in their range, names,
+ * wildcards, hashes, ranges, steps or lists.
+ * Whether a range starts before its end is only checked at runtime, and a
+ * `string` that is not a literal is accepted as is.
+ */
+type CronExpressionType<T extends string> = string extends T
+  ? T
+  : T extends `@${string}`
+    ? CheckPreset<T> extends infer Result
+      ? Result extends true
+        ? T
+        : Result extends string
+          ? CronTypeError<Result>
+          : CronTypeError<`Unknown preset "${T}"`>
+      : never
+    : CheckCronStr<SplitFields<T>> extends infer Result extends string
+      ? CronTypeError<Result>
+      : T;
 
 /**
  * An interface that defines the properties and methods of a cron job.
@@ -96,9 +1075,10 @@ interface ICron<T extends string = string> {
    */
   callback: () => void;
   /**
-   * The function to execute on each tick of the cron job.
+   * The function to execute on each tick of the cron job, given the context
+   * of the run.
    */
-  onTick: () => void;
+  onTick: (context: RunContext) => void;
   /**
    * The function to execute when the cron job completes.
    */
@@ -108,9 +1088,18 @@ interface ICron<T extends string = string> {
    */
   start: () => void;
   /**
-   * Stops the cron job.
+   * Stops the cron job, its next start computes the schedule from scratch.
    */
   stop: () => void;
+  /**
+   * Pauses the cron job, keeping its counters, queued runs and pending run.
+   */
+  pause: () => void;
+  /**
+   * Resumes the paused cron job, the runs missed meanwhile are handled by
+   * its misfire policy.
+   */
+  resume: () => void;
   /**
    * Destroys the cron job.
    */
@@ -126,10 +1115,25 @@ interface ICron<T extends string = string> {
    */
   isRunning: () => boolean;
   /**
-   * Gets the date of the last execution of the cron job.
-   * @returns The date of the last execution of the cron job.
+   * Checks if a run of the cron job is in progress.
+   * @returns `true` if the callback of the cron job is executing, `false` otherwise.
    */
-  lastExecution: () => Date;
+  isExecuting: () => boolean;
+  /**
+   * Gets the date the cron job last ran.
+   * @returns The start date of the last execution of the cron job, or `null` if it never ran.
+   */
+  lastExecution: () => Date | null;
+  /**
+   * Gets the history of the most recent executions of the cron job.
+   * @returns The execution records, newest first.
+   */
+  getHistory: () => ExecutionRecord[];
+  /**
+   * Gets the metrics of the executions of the cron job.
+   * @returns The run and failure counts, the durations and the last outcomes.
+   */
+  getMetrics: () => CronMetrics;
   /**
    * Gets the date of the next execution of the cron job.
    * @returns The date of the next execution of the cron job.
@@ -145,6 +1149,54 @@ interface ICron<T extends string = string> {
    * @returns The time until the next execution of the cron job.
    */
   time: () => number;
+  /**
+   * Gets the next `n` execution times of the cron job.
+   * @returns An array of up to `n` dates in ascending order.
+   */
+  take: (n: number, from?: Date) => Date[];
+  /**
+   * Gets the previous `n` execution times of the cron job.
+   * @returns An array of up to `n` dates in descending order.
+   */
+  takePrevious: (n: number, from?: Date) => Date[];
+  /**
+   * Gets all the execution times of the cron job between two dates, both included.
+   * @returns An array of dates in ascending order.
+   */
+  between: (start: Date, end: Date) => Date[];
+  /**
+   * Lazily iterates over the execution times of the cron job.
+   * @returns An iterator of dates in ascending order.
+   */
+  occurrences: (from?: Date) => IterableIterator<Date>;
+  /**
+   * Gets the state of the cron job, as persisted by a storage.
+   * @returns The status and the time of the last run of the cron job.
+   */
+  getState: () => JobState;
+  /**
+   * Registers a handler called each time the cron job emits the event.
+   */
+  on: <E extends CronEventName>(event: E, handler: CronEventHandler<E>) => void;
+  /**
+   * Registers a handler called the next time the cron job emits the event only.
+   */
+  once: <E extends CronEventName>(
+    event: E,
+    handler: CronEventHandler<E>,
+  ) => void;
+  /**
+   * Unregisters a handler registered with `on` or `once`.
+   */
+  off: <E extends CronEventName>(
+    event: E,
+    handler: CronEventHandler<E>,
+  ) => void;
+  /**
+   * Restores the state of the cron job, e.g. loaded from a storage: starts or
+   * stops the cron job and sets the time of its last run.
+   */
+  restore: (state: JobState) => void;
 }
 
 /**
@@ -162,12 +1214,26 @@ type CronOptions<T extends string = string> = {
    * @example
    * // wildcards
    * "* * * * * *"
+   * // unix format, without seconds
+   * "* * * * *"
+   * // quartz format, with a year
+   * "* * * * * * 2030"
    * // ranges
    * "1-10 * * * * *"
    * // steps
    * "1-10/2 * * * * *" // can be used with wildcards and ranges
    * // lists
    * "1,2,3 * * * * *"
+   * "1-5,10,20-30/2 * * * * *" // items can be values, ranges or steps
+   * // names
+   * "0 0 0 * JAN-MAR MON-FRI"
+   * // special characters in the day of the month
+   * "0 0 0 L * ?" // last day of the month
+   * "0 0 0 LW * ?" // last weekday of the month
+   * "0 0 0 15W * ?" // weekday nearest to the 15th
+   * // special characters in the day of the week
+   * "0 0 0 ? * 5L" // last friday of the month
+   * "0 0 0 ? * 2#2" // second tuesday of the month
    * // presets
    * "@every_second"
    * "@every_minute"
@@ -180,45 +1246,282 @@ type CronOptions<T extends string = string> = {
    * // custom presets
    * "@every_<number>_<unit>"
    * // where <unit> is one of the following:
-   * // "seconds", "minutes", "hours", "dayOfMonth", "months", "dayOfWeek"
+   * // "milliseconds", "seconds", "minutes", "hours", "dayOfMonth", "months", "dayOfWeek"
+   * "@every_<duration>"
+   * // where <duration> is an ISO 8601 duration like "PT1H30M" or a compound
+   * // duration like "1h30m" made of "w", "d", "h", "m", "s" and "ms"
    * "@at_<hour>:<minute>"
    * // where <hour> is a number between 0 and 23 and <minute> is a number between 0 and 59
-   * "@on_<day>"
+   * "@on_<day>,<day>,..."
    * // where <day> is one of the following:
    * // "sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"
+   * "@every_weekday" // monday to friday
+   * "@every_weekend" // saturday and sunday
    * "@between_<hour>_<hour>"
    * // where hour is a number between 0 and 23
+   * // combined presets
+   * "@on_monday@at_09:30"
+   * "@between_9_17@every_15_minutes" // steps through the minutes like "*\/15"
    */
   cron: CronExpressionType<T>;
   /**
-   * The callback function to execute on each tick of the cron job.
+   * The callback function to execute on each tick of the cron job, given the
+   * context of the run.
    */
-  callback: () => void;
+  callback: (context: RunContext) => void;
   /**
-   * The optional function to execute on each tick of the cron job.
+   * The optional function to execute on each tick of the cron job, given the
+   * context of the run.
    */
-  onTick?: () => void;
+  onTick?: (context: RunContext) => void;
   /**
-   * The optional function to execute when the cron job completes.
+   * The optional function to execute when the cron job completes, once it
+   * has no run left or when it's destroyed.
    */
   onComplete?: () => void;
   /**
    * Whether to start the cron job immediately upon creation.
    */
   start?: boolean;
+  /**
+   * The date the intervals of the `@every` presets are counted from.
+   * Defaults to `startAt`, or to the time the cron job starts.
+   */
+  anchor?: Date;
+  /**
+   * The number of runs after which the cron job completes. Defaults to no
+   * limit.
+   */
+  maxRuns?: number;
+  /**
+   * The date before which the cron job doesn't run. Defaults to no start
+   * date.
+   */
+  startAt?: Date;
+  /**
+   * The date after which the cron job completes. Defaults to no end date.
+   */
+  endAt?: Date;
+  /**
+   * The format of the cron expression, detected from its number of fields by
+   * default. Presets always use the `seconds` format, except the `@every`
+   * presets which run at fixed intervals.
+   */
+  format?: CronFormat;
+  /**
+   * The IANA time zone the cron expression is evaluated in, e.g. `Europe/Berlin`.
+   * Defaults to the time zone of the host.
+   */
+  timezone?: string;
+  /**
+   * How wall-clock times repeated when daylight saving time ends are handled
+   * for jobs bound to specific hours, `'once'` runs only on the first
+   * occurrence and `'both'` runs on each occurrence. Defaults to `'once'`.
+   */
+  repeatedTimes?: RepeatedTimes;
+  /**
+   * How the runs missed because the process was asleep, blocked or restarted
+   * are handled. Defaults to `'runOnce'`.
+   * @example
+   * // after sleeping through five runs of a cron job:
+   * 'skip' // drops them and waits for the next run
+   * 'runOnce' // runs once right away
+   * 'runAll' // runs five times right away, up to `maxCatchUp` times
+   */
+  misfire?: MisfirePolicy;
+  /**
+   * The maximum number of missed runs caught up with the `'runAll'` policy,
+   * the most recent ones are kept. Defaults to 10.
+   */
+  maxCatchUp?: number;
+  /**
+   * How late in milliseconds a run can be before it counts as missed.
+   * Defaults to 1000.
+   */
+  misfireGrace?: number;
+  /**
+   * The delay added to each run to spread the load of many jobs scheduled at
+   * the same time, either the longest random delay in milliseconds or the
+   * jitter options. Defaults to no delay.
+   * @example
+   * 30_000 // up to 30 seconds, drawn for each run
+   * { max: 60_000, mode: 'name' } // up to a minute, the same for each run
+   */
+  jitter?: number | JitterOptions;
+  /**
+   * How a run due while the previous one is still executing is handled,
+   * useful for async callbacks that may outlast their interval. Defaults to
+   * `'allow'`.
+   */
+  overlap?: OverlapPolicy;
+  /**
+   * The function to execute when a run of the cron job fails, once its
+   * retries are exhausted. Defaults to the error handler of the baker.
+   */
+  onError?: ErrorHandler;
+  /**
+   * How a failed run of the cron job is retried before it's considered failed.
+   * @example
+   * // retries twice, after 1 then 2 seconds, give or take 10%
+   * { attempts: 3, backoff: 'exponential', delay: 1000, jitter: 0.1 }
+   */
+  retry?: RetryOptions;
+  /**
+   * How long in milliseconds an attempt can take before its signal is
+   * aborted and it fails with a `CronTimeoutError`. Defaults to no timeout.
+   */
+  timeout?: number;
+  /**
+   * The number of executions kept in the history of the cron job. Defaults
+   * to 100.
+   */
+  historySize?: number;
+  /**
+   * The clock the cron job reads the time from and sets its timers with.
+   * Defaults to the system clock.
+   */
+  clock?: Clock;
 };
 
-type Status = 'running' | 'stopped';
+/**
+ * The options of a one-shot cron job, running once at the given date or
+ * after the given delay in milliseconds, then completing. It starts upon
+ * creation unless `start` is `false`.
+ */
+type OneShotOptions = Omit<
+  CronOptions,
+  | 'cron'
+  | 'format'
+  | 'timezone'
+  | 'repeatedTimes'
+  | 'maxRuns'
+  | 'startAt'
+  | 'endAt'
+> &
+  ({ at: Date; delay?: undefined } | { delay: number; at?: undefined });
+
+/**
+ * The status of a cron job. `'idle'` jobs were never started or were
+ * stopped, `'scheduled'` jobs wait for their next run, `'executing'` jobs
+ * have a run in progress, `'errored'` jobs are scheduled but their last run
+ * failed, `'paused'` jobs keep their pending run until resumed, `'completed'`
+ * jobs have no run left and `'destroyed'` jobs can't be used anymore.
+ */
+type Status =
+  | 'idle'
+  | 'scheduled'
+  | 'executing'
+  | 'paused'
+  | 'completed'
+  | 'errored'
+  | 'destroyed';
+
+/**
+ * A change of status of a cron job, guarded against illegal moves.
+ */
+type CronAction = 'start' | 'stop' | 'pause' | 'resume';
+
+/**
+ * The state of a cron job persisted by a storage.
+ */
+type JobState = {
+  /**
+   * The name of the cron job.
+   */
+  name: string;
+  /**
+   * The status of the cron job.
+   */
+  status: Status;
+  /**
+   * The time the cron job last ran, or `null` if it never ran.
+   */
+  lastRun: Date | null;
+  /**
+   * The number of runs the cron job fired, counting towards its `maxRuns`.
+   * Missing from the states saved by older versions.
+   */
+  runs?: number;
+};
+
+/**
+ * A record of a run of a cron job persisted by a storage.
+ */
+type RunRecord = {
+  /**
+   * The name of the cron job.
+   */
+  name: string;
+  /**
+   * The time the run started.
+   */
+  startedAt: Date;
+  /**
+   * The time the run finished.
+   */
+  finishedAt: Date;
+  /**
+   * Whether the run completed without throwing.
+   */
+  success: boolean;
+  /**
+   * The message of the error thrown by the run, if any.
+   */
+  error?: string;
+};
+
+/**
+ * An interface for the storage adapters persisting the state of cron jobs and
+ * the records of their runs, so they survive restarts.
+ */
+interface IStorage {
+  /**
+   * Loads the states of all the persisted cron jobs.
+   */
+  loadJobs(): Promise<JobState[]>;
+
+  /**
+   * Saves the state of a cron job, replacing the previous one.
+   */
+  saveJob(state: JobState): Promise<void>;
+
+  /**
+   * Removes the state and the run records of a cron job.
+   */
+  removeJob(name: string): Promise<void>;
+
+  /**
+   * Saves the record of a run of a cron job.
+   */
+  saveRun(record: RunRecord): Promise<void>;
+
+  /**
+   * Loads the most recent run records of a cron job, newest first.
+   */
+  loadRuns(name: string, limit?: number): Promise<RunRecord[]>;
+}
 
 /**
  * An interface that defines the properties and methods of a baker.
  */
 interface IBaker {
   /**
-   * Adds a new cron job with the specified options.
-   * @returns A new `ICron` object representing the cron job.
+   * Adds a new cron job with the specified options, or a one-shot cron job.
    */
-  add: (options: CronOptions) => ICron;
+  add: {
+    /**
+     * Adds a new cron job with the specified options, throwing a `CronParseError`
+     * if its cron expression is invalid.
+     * @returns A new `ICron` object representing the cron job.
+     */
+    (options: CronOptions): ICron;
+    /**
+     * Adds a one-shot cron job running once at the given date or after the
+     * given delay.
+     * @returns A new `ICron` object representing the cron job.
+     */
+    (options: OneShotOptions): ICron;
+  };
 
   /**
    * Removes the cron job with the specified name.
@@ -235,6 +1538,16 @@ interface IBaker {
    */
   stop: (name: string) => void;
 
+  /**
+   * Pauses the cron job with the specified name.
+   */
+  pause: (name: string) => void;
+
+  /**
+   * Resumes the paused cron job with the specified name.
+   */
+  resume: (name: string) => void;
+
   /**
    * Destroys the cron job with the specified name.
    */
@@ -244,7 +1557,7 @@ interface IBaker {
    * Gets the status of the cron job with the specified name.
    * @returns The status of the cron job.
    */
-  getStatus: (name: string) => string;
+  getStatus: (name: string) => Status;
 
   /**
    * Checks if the cron job with the specified name is running.
@@ -253,10 +1566,28 @@ interface IBaker {
   isRunning: (name: string) => boolean;
 
   /**
-   * Gets the date of the last execution of the cron job with the specified name.
-   * @returns The date of the last execution of the cron job.
+   * Checks if a run of the cron job with the specified name is in progress.
+   * @returns `true` if the callback of the cron job is executing, `false` otherwise.
    */
-  lastExecution: (name: string) => Date;
+  isExecuting: (name: string) => boolean;
+
+  /**
+   * Gets the date the cron job with the specified name last ran.
+   * @returns The start date of the last execution of the cron job, or `null` if it never ran.
+   */
+  lastExecution: (name: string) => Date | null;
+
+  /**
+   * Gets the history of the most recent executions of the cron job with the specified name.
+   * @returns The execution records, newest first.
+   */
+  getHistory: (name: string) => ExecutionRecord[];
+
+  /**
+   * Gets the metrics of the executions of the cron job with the specified name.
+   * @returns The run and failure counts, the durations and the last outcomes.
+   */
+  getMetrics: (name: string) => CronMetrics;
 
   /**
    * Gets the date of the next execution of the cron job with the specified name.
@@ -277,7 +1608,67 @@ interface IBaker {
   time: (name: string) => number;
 
   /**
-   * Starts all cron jobs.
+   * Gets the next `n` execution times of the cron job with the specified name.
+   * @returns An array of up to `n` dates in ascending order.
+   */
+  take: (name: string, n: number, from?: Date) => Date[];
+
+  /**
+   * Gets the previous `n` execution times of the cron job with the specified name.
+   * @returns An array of up to `n` dates in descending order.
+   */
+  takePrevious: (name: string, n: number, from?: Date) => Date[];
+
+  /**
+   * Gets all the execution times of the cron job with the specified name between two dates.
+   * @returns An array of dates in ascending order.
+   */
+  between: (name: string, start: Date, end: Date) => Date[];
+
+  /**
+   * Lazily iterates over the execution times of the cron job with the specified name.
+   * @returns An iterator of dates in ascending order.
+   */
+  occurrences: (name: string, from?: Date) => IterableIterator<Date>;
+
+  /**
+   * Waits for the states of the cron jobs to be restored from the storage.
+   * @returns A promise resolved once the states are restored.
+   */
+  ready: () => Promise<void>;
+
+  /**
+   * Registers a handler called each time the baker or one of its cron jobs emits the event.
+   */
+  on: <E extends CronEventName>(event: E, handler: CronEventHandler<E>) => void;
+
+  /**
+   * Registers a handler called the next time the baker or one of its cron
+   * jobs emits the event only, or adds a one-shot cron job.
+   */
+  once: {
+    /**
+     * Registers a handler called the next time the baker or one of its cron jobs emits the event only.
+     */
+    <E extends CronEventName>(event: E, handler: CronEventHandler<E>): void;
+    /**
+     * Adds a one-shot cron job running once at the given date or after the
+     * given delay.
+     * @returns A new `ICron` object representing the cron job.
+     */
+    (options: OneShotOptions): ICron;
+  };
+
+  /**
+   * Unregisters a handler registered with `on` or `once`.
+   */
+  off: <E extends CronEventName>(
+    event: E,
+    handler: CronEventHandler<E>,
+  ) => void;
+
+  /**
+   * Starts all the idle cron jobs.
    */
   bakeAll: () => void;
 
@@ -286,6 +1677,16 @@ interface IBaker {
    */
   stopAll: () => void;
 
+  /**
+   * Pauses all the scheduled cron jobs.
+   */
+  pauseAll: () => void;
+
+  /**
+   * Resumes all the paused cron jobs.
+   */
+  resumeAll: () => void;
+
   /**
    * Destroys all cron jobs.
    */
@@ -294,23 +1695,78 @@ interface IBaker {
 
 interface IBakerOptions {
   autoStart?: boolean;
+  /**
+   * The default IANA time zone for the cron jobs that don't specify one.
+   */
+  timezone?: string;
+  /**
+   * The storage persisting the state of the cron jobs and the records of
+   * their runs. The state of each cron job is restored when it's added.
+   */
+  storage?: IStorage;
+  /**
+   * The default function to execute when a run of a cron job fails, for the
+   * cron jobs that don't specify one.
+   */
+  onError?: ErrorHandler;
+  /**
+   * The default clock for the cron jobs that don't specify one.
+   */
+  clock?: Clock;
 }
 
 export {
   type CronTime,
+  type CronInterval,
+  type CronFormat,
+  type CronField,
+  type CronValidationError,
+  type CronValidationResult,
+  type Clock,
+  type CronParserOptions,
+  type CronDescriptionUnit,
+  type CronLocale,
+  type DescribeOptions,
+  type RepeatedTimes,
+  type MisfirePolicy,
+  type OverlapPolicy,
+  type ErrorContext,
+  type ErrorHandler,
+  type JitterOptions,
+  type RetryOptions,
+  type ExecutionOutcome,
+  type RunContext,
+  type ExecutionRecord,
+  type CronMetrics,
+  type SkipReason,
+  type CronEvents,
+  type CronEventName,
+  type CronEventHandler,
+  type OccurrenceOptions,
   type ICronParser,
   type CronExpression,
   type CronExpressionType,
+  type CronTypeError,
   type EveryStrType,
+  type DurationStrType,
   type AtHourStrType,
   type OnDayStrType,
+  type WeekStrType,
   type BetweenStrType,
+  type PresetStrType,
+  type ComposedStrType,
   type unit,
+  type durationUnit,
   type day,
   type CronExprs,
   type ICron,
   type CronOptions,
+  type OneShotOptions,
   type Status,
+  type CronAction,
+  type JobState,
+  type RunRecord,
+  type IStorage,
   type IBaker,
   type IBakerOptions,
 };
@@ -1,12 +1,42 @@
+import { type RetryOptions } from "@/lib/types";
+
 const resolveIfPromise = async (value: any) =>
   value instanceof Promise ? await value : value;
 
-const CBResolver = async (callback?: () => void) => {
+const CBResolver = async (
+  callback?: (...args: any[]) => void,
+  ...args: any[]
+) => {
   try {
     if (callback) {
-      await resolveIfPromise(callback());
+      await resolveIfPromise(callback(...args));
     }
   } catch (e) {}
 };
 
-export { resolveIfPromise, CBResolver };
+/**
+ * Gets the delay in milliseconds before retrying a failed attempt.
+ */
+const getRetryDelay = (retry: RetryOptions, attempt: number) => {
+  const { backoff = "fixed", delay = 1000, maxDelay = Infinity } = retry;
+  const base = Math.min(
+    backoff === "exponential" ? delay * 2 ** (attempt - 1) : delay,
+    maxDelay,
+  );
+  const jitter = base * (retry.jitter ?? 0) * (Math.random() * 2 - 1);
+  return Math.max(0, base + jitter);
+};
+
+/**
+ * Hashes a string into a 32-bit unsigned integer with FNV-1a, so the values
+ * derived from a name are the same on every host and across restarts.
+ */
+const hashString = (str: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash = Math.imul(hash ^ str.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export { resolveIfPromise, CBResolver, getRetryDelay, hashString };